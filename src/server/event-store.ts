@@ -0,0 +1,54 @@
+// In-memory event store so Streamable HTTP clients can resume dropped SSE streams
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+// Oldest events are dropped past this point; a client that far behind must reconnect
+const MAX_EVENTS = 1000;
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Bounded per-session event log keyed by sequential event IDs
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private sequence = 0;
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.sequence}`;
+    this.events.push({ eventId, streamId, message });
+
+    if (this.events.length > MAX_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_EVENTS);
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find(event => event.eventId === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex(event => event.eventId === lastEventId);
+    if (index === -1) {
+      throw new Error(`Unknown event ID: ${lastEventId}`);
+    }
+
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+
+    return streamId;
+  }
+}
@@ -1,42 +1,97 @@
 #!/usr/bin/env node
 
 // HTTP server wrapper for MCP server (for ChatGPT Apps SDK)
-import express from 'express';
+import express, { type Request, type Response } from 'express';
 import cors from 'cors';
 import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
-// Import MCP server functions directly
-import {
-  prepareDepositTransaction,
-  getUSDCBalance,
-  getEthereumTransactionStatus,
-  checkContractHealth,
-  type DepositTransactionData
-} from './lib/ethereum.js';
-import {
-  prepareWithdrawalTransaction,
-  getUSDCxBalance,
-  getStacksTransactionStatus,
-  checkStacksContractHealth,
-  estimateWithdrawalTime,
-  type WithdrawalTransactionData
-} from './lib/stacks.js';
-import {
-  isValidStacksAddress,
-  isValidEthereumAddress,
-  toMicroUSDC
-} from './lib/helpers.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Same server definition as the stdio entry point
+import { createBridgeServer, SERVER_VERSION } from './server.js';
+import { InMemoryEventStore } from './event-store.js';
+import { bootstrap } from './startup.js';
+import { startJournalSync, trackTransfer } from './lib/tracker.js';
+import { exportTransfers } from './lib/export.js';
+import { getIntent, isSenderClaim, toPublicIntent } from './lib/intents.js';
+import { checkStatusSchema, exportTransfersSchema, intentClaimSchema, toFieldIssues } from './schemas.js';
+import type { ToolContext } from './tools.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Refuse to start with invalid or mixed-network configuration
+const { config, profile } = bootstrap();
+
 const app = express();
-const port = Number(process.env.PORT) || 3001;
+const port = config.settings.PORT ?? 3001;
+
+const toolContext: ToolContext = {
+  widgetBaseUrl: (config.settings.BASE_URL ?? `http://localhost:${port}`).replace(/\/+$/, '')
+};
+
+// Sessions idle this long are closed, since clients may disconnect without ending them
+const SESSION_IDLE_MS = 30 * 60_000;
+const SESSION_SWEEP_INTERVAL_MS = 60_000;
+// Beyond this many sessions, the least recently used idle one is closed to admit a new one; when
+// every session is serving a request, new sessions are refused instead
+const MAX_SESSIONS = 500;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  activeRequests: number; // an open notification stream keeps the session alive
+}
+
+// Active Streamable HTTP sessions, keyed by Mcp-Session-Id, least recently used first
+const sessions = new Map<string, Session>();
+
+/**
+ * Mark a session used for the duration of one request
+ */
+function trackSessionRequest(id: string, session: Session, res: Response): void {
+  sessions.delete(id);
+  sessions.set(id, session);
+  session.lastSeen = Date.now();
+  session.activeRequests++;
+  res.on('close', () => {
+    session.activeRequests--;
+    session.lastSeen = Date.now();
+  });
+}
+
+function closeSession(session: Session): void {
+  session.transport.close().catch(error => console.error('Error closing MCP session:', error));
+}
+
+// The least recently used session with no request in flight, if any
+function idleSession(): Session | undefined {
+  let oldest: Session | undefined;
+  for (const session of sessions.values()) {
+    if (session.activeRequests === 0 && (!oldest || session.lastSeen < oldest.lastSeen)) {
+      oldest = session;
+    }
+  }
+  return oldest;
+}
+
+setInterval(() => {
+  const cutoff = Date.now() - SESSION_IDLE_MS;
+  for (const session of sessions.values()) {
+    if (session.activeRequests === 0 && session.lastSeen < cutoff) {
+      closeSession(session);
+    }
+  }
+}, SESSION_SWEEP_INTERVAL_MS).unref();
 
 // Middleware
-app.use(cors());
+app.use(cors({
+  exposedHeaders: ['Mcp-Session-Id', 'Content-Disposition', 'X-Export-Truncated', 'X-Export-Covered-From', 'X-Export-Covered-To']
+}));
 app.use(express.json());
 
 // Health check endpoint
@@ -45,226 +100,204 @@ app.get('/health', (req, res) => {
     status: 'healthy',
     service: 'usdcx-bridge-mcp',
     timestamp: new Date().toISOString(),
-    version: '1.0.0'
+    version: SERVER_VERSION,
+    sessions: sessions.size
   });
 });
 
-// Direct MCP handler for better performance
-async function handleMCPRequest(requestData: any) {
-  const { method, params } = requestData;
-
-  if (method === 'initialize') {
-    return {
-      jsonrpc: '2.0',
-      id: requestData.id,
-      result: {
-        protocolVersion: '2024-11-05',
-        capabilities: {
-          tools: {}
-        },
-        serverInfo: {
-          name: 'usdcx-bridge',
-          version: '1.0.0'
-        }
-      }
-    };
+// Transfer history export for bookkeeping (same arguments as the exportTransfers tool)
+// e.g. /export/transfers?address=0x...,ST...&from=2025-01-01&to=2025-01-31&format=csv
+app.get('/export/transfers', async (req, res) => {
+  const addresses = ([] as unknown[]).concat(req.query.address ?? [])
+    .flatMap(value => String(value).split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  const parsed = exportTransfersSchema.safeParse({
+    addresses,
+    from: req.query.from,
+    to: req.query.to,
+    format: req.query.format
+  });
+  if (!parsed.success) {
+    res.status(400).json({ error: 'invalid_arguments', issues: toFieldIssues(parsed.error) });
+    return;
   }
 
-  if (method === 'tools/list') {
-    return {
-      jsonrpc: '2.0',
-      id: requestData.id,
-      result: {
-        tools: [
-          {
-            name: 'prepareDeposit',
-            description: 'Prepare transaction to bridge USDC from Ethereum to Stacks as USDCx',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                amount: { type: 'string', description: 'Amount of USDC to bridge' },
-                stacksRecipient: { type: 'string', description: 'Stacks address to receive USDCx' },
-                userEthereumAddress: { type: 'string', description: 'User\'s Ethereum address' }
-              },
-              required: ['amount', 'stacksRecipient', 'userEthereumAddress']
-            }
-          },
-          {
-            name: 'healthCheck',
-            description: 'Check if USDCx bridge contracts are operational',
-            inputSchema: {
-              type: 'object',
-              properties: {}
-            }
-          }
-        ]
-      }
-    };
+  try {
+    const { addresses, from, to, format } = parsed.data;
+    const result = await exportTransfers({ addresses, since: from, until: to, format });
+    res.setHeader('Content-Type', result.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+    res.setHeader('X-Export-Truncated', String(result.truncated));
+    res.setHeader('X-Export-Covered-From', result.coveredFrom);
+    res.setHeader('X-Export-Covered-To', result.coveredTo);
+    res.send(result.body);
+  } catch (error) {
+    console.error('Error exporting transfers:', error);
+    res.status(502).json({ error: 'export_failed', message: error instanceof Error ? error.message : 'Unknown error' });
   }
+});
 
-  if (method === 'tools/call') {
-    const { name, arguments: args } = params;
-
-    if (name === 'healthCheck') {
-      const [ethHealth, stacksHealth] = await Promise.all([
-        checkContractHealth(),
-        checkStacksContractHealth()
-      ]);
+// Status of a submitted transfer for the widgets (same logic as the checkStatus tool)
+// e.g. /status/ethereum/0x...
+app.get('/status/:chain/:txHash', async (req, res) => {
+  const parsed = checkStatusSchema.safeParse({ txHash: req.params.txHash, chain: req.params.chain });
+  if (!parsed.success) {
+    res.status(400).json({ error: 'invalid_arguments', issues: toFieldIssues(parsed.error) });
+    return;
+  }
 
-      return {
-        jsonrpc: '2.0',
-        id: requestData.id,
-        result: {
-          content: [{
-            type: 'text',
-            text: `**USDCx Bridge Health Check**\n\n` +
-                  `**Ethereum**: ${ethHealth.healthy ? 'Healthy' : `Error - ${ethHealth.error}`}\n` +
-                  `**Stacks**: ${stacksHealth.healthy ? 'Healthy' : `Error - ${stacksHealth.error}`}\n\n` +
-                  `**Status**: ${ethHealth.healthy && stacksHealth.healthy ? 'Operational' : 'Issues detected'}\n\n` +
-                  `Note: Bridge transactions may still work even if health check shows errors.`
-          }]
-        }
-      };
-    }
+  // Recording stays on so hosted widgets attach their transaction to the journal. Anyone may call
+  // this, which is safe because the journal only takes fetched statuses and never un-settles an entry.
+  try {
+    res.json(await trackTransfer(parsed.data.txHash, parsed.data.chain));
+  } catch (error) {
+    console.error('Error checking transfer status:', error);
+    res.status(502).json({ error: 'status_failed', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
 
-    if (name === 'prepareDeposit') {
-      try {
-        const { amount, stacksRecipient, userEthereumAddress } = args;
+function sendIntentNotFound(res: Response) {
+  res.status(404).json({ error: 'intent_not_found', message: 'This transfer link is unknown or has expired; prepare the transfer again' });
+}
 
-        // Validate inputs
-        if (!amount || !stacksRecipient || !userEthereumAddress) {
-          throw new Error('Missing required parameters: amount, stacksRecipient, userEthereumAddress');
-        }
+// Prepared transfer a widget link points at, without its transaction; unknown and expired IDs look the same
+app.get('/intents/:id', (req, res) => {
+  const intent = getIntent(req.params.id);
+  res.setHeader('Cache-Control', 'no-store');
+  if (!intent) {
+    sendIntentNotFound(res);
+    return;
+  }
+  res.json(toPublicIntent(intent));
+});
 
-        if (!isValidStacksAddress(stacksRecipient)) {
-          throw new Error('Invalid Stacks address format');
-        }
+// The full intent, transaction included, for its sender only (proved by signing intentClaimMessage)
+app.post('/intents/:id/claim', async (req, res) => {
+  const intent = getIntent(req.params.id);
+  res.setHeader('Cache-Control', 'no-store');
+  if (!intent) {
+    sendIntentNotFound(res);
+    return;
+  }
 
-        if (!isValidEthereumAddress(userEthereumAddress)) {
-          throw new Error('Invalid Ethereum address format');
-        }
+  const parsed = intentClaimSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'invalid_arguments', issues: toFieldIssues(parsed.error) });
+    return;
+  }
 
-        // Prepare the deposit transaction
-        const txData = await prepareDepositTransaction(amount, stacksRecipient, userEthereumAddress);
-
-        // Create widget URL with transaction data
-        const widgetUrl = `${process.env.BASE_URL || 'http://localhost:3001'}/widgets/deposit.html?` +
-          `amount=${encodeURIComponent(amount)}&` +
-          `recipient=${encodeURIComponent(stacksRecipient)}&` +
-          `data=${encodeURIComponent(JSON.stringify(txData))}`;
-
-        return {
-          jsonrpc: '2.0',
-          id: requestData.id,
-          result: {
-            content: [{
-              type: 'text',
-              text: `✅ **Prepared deposit of ${amount} USDC to ${stacksRecipient.slice(0, 8)}...**\n\n` +
-                    `💰 Amount: ${amount} USDC → ${amount} USDCx\n` +
-                    `⏰ Estimated time: ~15 minutes\n` +
-                    `🔧 ${txData.requiresApproval ? 'Approval required first' : 'Ready to bridge'}\n\n` +
-                    `Click the link below to open the bridge widget and connect your MetaMask wallet:\n\n` +
-                    `[🌉 Open Bridge Widget](${widgetUrl})`
-            }],
-            widget: {
-              url: widgetUrl,
-              type: 'deposit'
-            }
-          }
-        };
-      } catch (error) {
-        return {
-          jsonrpc: '2.0',
-          id: requestData.id,
-          result: {
-            content: [{
-              type: 'text',
-              text: `❌ **Bridge Preparation Failed**\n\n` +
-                    `**Error**: ${error instanceof Error ? error.message : 'Unknown error'}\n\n` +
-                    `Please check:\n` +
-                    `• Amount is ≥1 USDC\n` +
-                    `• Valid Stacks address (SP...)\n` +
-                    `• Valid Ethereum address (0x...)\n` +
-                    `• Network connection`
-            }]
-          }
-        };
-      }
+  try {
+    if (!(await isSenderClaim(intent, parsed.data))) {
+      res.status(403).json({ error: 'not_intent_sender', message: 'Only the account this transfer was prepared for can open it' });
+      return;
     }
-
-    return {
-      jsonrpc: '2.0',
-      id: requestData.id,
-      error: {
-        code: -32601,
-        message: `Method not found: ${name}`
-      }
-    };
+    res.json(intent);
+  } catch (error) {
+    console.error('Error verifying intent claim:', error);
+    res.status(502).json({ error: 'claim_failed', message: error instanceof Error ? error.message : 'Unknown error' });
   }
+});
 
-  return {
+function sendJsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
     jsonrpc: '2.0',
-    id: requestData.id,
+    id: null,
     error: {
-      code: -32601,
-      message: `Method not found: ${method}`
+      code: -32000,
+      message
     }
-  };
+  });
 }
 
-// SSE endpoint for ChatGPT integration
+// A new session may only be opened by an initialize request (alone or in a batch)
+function opensSession(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+}
+
+// Streamable HTTP endpoint for ChatGPT integration
 app.post('/mcp', async (req, res) => {
   try {
-    console.log('MCP request:', JSON.stringify(req.body, null, 2));
-
-    // Set SSE headers
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Cache-Control'
-    });
-
-    // Add timeout for ChatGPT requests (5 seconds)
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Request timeout')), 5000);
-    });
-
-    // Handle MCP request directly for better performance
-    const mcpResponse = await Promise.race([
-      handleMCPRequest(req.body),
-      timeoutPromise
-    ]);
+    const sessionId = req.header('mcp-session-id');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    let transport: StreamableHTTPServerTransport;
+
+    if (session) {
+      trackSessionRequest(sessionId!, session, res);
+      transport = session.transport;
+    } else {
+      if (sessionId) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      if (!opensSession(req.body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      if (sessions.size >= MAX_SESSIONS && !idleSession()) {
+        res.setHeader('Retry-After', '30');
+        sendJsonRpcError(res, 503, 'Service Unavailable: every session is busy; try again shortly');
+        return;
+      }
 
-    console.log('MCP response:', JSON.stringify(mcpResponse, null, 2));
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (id) => {
+          // A session that became busy since the check above is left open, briefly exceeding the cap
+          const idle = sessions.size >= MAX_SESSIONS ? idleSession() : undefined;
+          if (idle) {
+            closeSession(idle);
+          }
+          const created: Session = { transport: newTransport, lastSeen: Date.now(), activeRequests: 0 };
+          sessions.set(id, created);
+          trackSessionRequest(id, created, res);
+        }
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          sessions.delete(newTransport.sessionId);
+        }
+      };
 
-    // Send as SSE event
-    res.write(`data: ${JSON.stringify(mcpResponse)}\n\n`);
-    res.end();
+      await createBridgeServer(toolContext).connect(newTransport);
+      transport = newTransport;
+    }
 
+    await transport.handleRequest(req, res, req.body);
   } catch (error) {
     console.error('MCP error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: {
+          code: -32603,
+          message: 'Internal error',
+          data: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+});
 
-    const errorResponse = {
-      jsonrpc: '2.0',
-      id: req.body?.id || null,
-      error: {
-        code: -32603,
-        message: 'Internal error',
-        data: error instanceof Error ? error.message : 'Unknown error'
-      }
-    };
+// GET opens the server-to-client notification stream, DELETE ends the session
+async function handleSessionRequest(req: Request, res: Response) {
+  const sessionId = req.header('mcp-session-id');
+  const session = sessionId ? sessions.get(sessionId) : undefined;
 
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive'
-    });
-    res.write(`data: ${JSON.stringify(errorResponse)}\n\n`);
-    res.end();
+  if (!session) {
+    sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+    return;
   }
-});
+
+  trackSessionRequest(sessionId!, session, res);
+  await session.transport.handleRequest(req, res);
+}
+
+app.get('/mcp', handleSessionRequest);
+app.delete('/mcp', handleSessionRequest);
 
 // Alternative JSON endpoint for testing
 app.post('/mcp-json', async (req, res) => {
@@ -319,12 +352,16 @@ app.get('/', (req, res) => {
   res.json({
     name: 'USDCx Bridge MCP Server',
     description: 'ChatGPT App for bridging USDC between Ethereum and Stacks',
-    version: '1.0.0',
+    version: SERVER_VERSION,
     endpoints: {
       health: '/health',
-      mcp: '/mcp (SSE)',
+      mcp: '/mcp (Streamable HTTP)',
       mcpJson: '/mcp-json (JSON)',
-      widgets: '/widgets'
+      widgets: '/widgets',
+      export: '/export/transfers',
+      status: '/status/:chain/:txHash',
+      intents: '/intents/:id',
+      intentClaim: '/intents/:id/claim (POST)'
     },
     documentation: 'https://github.com/your-username/usdcx-bridge-app'
   });
@@ -332,7 +369,8 @@ app.get('/', (req, res) => {
 
 // Start server
 app.listen(port, '0.0.0.0', () => {
-  console.log(`🚀 USDCx Bridge MCP Server running on port ${port}`);
+  startJournalSync();
+  console.log(`🚀 USDCx Bridge MCP Server running on port ${port} (${profile.name})`);
   console.log(`📊 Health check: http://localhost:${port}/health`);
   console.log(`🔗 MCP endpoint: http://localhost:${port}/mcp`);
   console.log(`🎨 Widgets: http://localhost:${port}/widgets`);
@@ -0,0 +1,71 @@
+// xReserve allowance: what the bridge contract may spend, and approve calls to revoke or adjust it
+import type { Address } from 'viem';
+import {
+  getEthereumBalances,
+  buildApprovalTransaction,
+  estimateApprovalGas,
+  isUnlimitedAllowance,
+  type ApprovalTransaction
+} from './ethereum.js';
+import { getNetworkProfile } from './network.js';
+import { formatAmount } from '../../shared/amount.js';
+
+export type AllowanceAction = 'status' | 'revoke' | 'set';
+
+export interface AllowanceChange extends ApprovalTransaction {
+  action: Exclude<AllowanceAction, 'status'>;
+  estimatedGas: string; // hex, like the deposit transaction data
+}
+
+/**
+ * JSON-safe allowance of one owner, with the transaction that changes it when one was requested
+ */
+export interface AllowanceReport {
+  owner: string;
+  spender: string; // the xReserve contract
+  token: string; // the USDC contract
+  allowance: string; // formatted USDC, or "unlimited"
+  allowanceBaseUnits: string;
+  unlimited: boolean;
+  balance: string;
+  balanceBaseUnits: string;
+  change?: AllowanceChange; // absent for status checks, and when the allowance is already the target
+}
+
+function describeAllowance(allowance: bigint): string {
+  return isUnlimitedAllowance(allowance) ? 'unlimited' : formatAmount(allowance);
+}
+
+/**
+ * Read an owner's xReserve allowance and, for `revoke` or `set`, prepare the approve call that changes it
+ */
+export async function manageAllowance(owner: Address, action: AllowanceAction, amount?: bigint): Promise<AllowanceReport> {
+  const { ethereum } = getNetworkProfile();
+  const { allowance, usdc } = await getEthereumBalances(owner);
+
+  const report: AllowanceReport = {
+    owner,
+    spender: ethereum.xreserveContract,
+    token: ethereum.usdcContract,
+    allowance: describeAllowance(allowance),
+    allowanceBaseUnits: allowance.toString(),
+    unlimited: isUnlimitedAllowance(allowance),
+    balance: formatAmount(usdc),
+    balanceBaseUnits: usdc.toString()
+  };
+  if (action === 'status') {
+    return report;
+  }
+
+  const target = action === 'revoke' ? 0n : amount;
+  if (target === undefined) {
+    throw new Error('An amount is required to set the allowance');
+  }
+  if (target === allowance) {
+    return report;
+  }
+
+  const transaction = buildApprovalTransaction(target);
+  const gas = await estimateApprovalGas(owner, transaction.data);
+  return { ...report, change: { ...transaction, action, estimatedGas: `0x${gas.toString(16)}` } };
+}
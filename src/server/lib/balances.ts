@@ -0,0 +1,181 @@
+// Wallet balances on both sides of the bridge, and whether they cover a transfer
+import { formatEther, getAddress } from 'viem';
+import { getEthereumBalances, estimateDepositFees } from './ethereum.js';
+import { getStacksBalances, estimateBurnFee } from './stacks.js';
+import { getNetworkProfile } from './network.js';
+import { formatAmount } from '../../shared/amount.js';
+
+export type BalanceAsset = 'ETH' | 'USDC' | 'STX' | 'USDCx';
+
+export interface AssetBalance {
+  asset: BalanceAsset;
+  amount: string;
+  baseUnits: string; // wei, micro-STX or token base units
+}
+
+/**
+ * Whether an account can send a bridge transfer of `amount` from its chain right now
+ */
+export interface Affordability {
+  amount: string;
+  amountBaseUnits: string;
+  canAfford: boolean;
+  networkFee: AssetBalance | null; // expected fee of the source transaction(s); null when it could not be estimated
+  networkFeeError?: string; // why networkFee is null
+  requiresApproval?: boolean; // deposits only: the xReserve allowance is below the amount
+  shortfalls: string[]; // why canAfford is false
+}
+
+export interface EthereumAccount {
+  address: string;
+  eth: AssetBalance;
+  usdc: AssetBalance;
+  allowance: AssetBalance; // USDC the xReserve contract may pull
+  affordability?: Affordability;
+}
+
+export interface StacksAccount {
+  address: string;
+  stx: AssetBalance; // unlocked only
+  usdcx: AssetBalance;
+  affordability?: Affordability;
+}
+
+/**
+ * A side whose node could not be read; reported instead of a zero balance
+ */
+export interface AccountError {
+  address: string;
+  error: string;
+}
+
+export interface BalanceReport {
+  ethereum?: EthereumAccount | AccountError;
+  stacks?: StacksAccount | AccountError;
+}
+
+export interface BalanceRequest {
+  ethereumAddress?: string;
+  stacksAddress?: string;
+  amount?: bigint; // checked against both sides when given
+}
+
+export function isAccountError(account: EthereumAccount | StacksAccount | AccountError): account is AccountError {
+  return 'error' in account;
+}
+
+function assetBalance(asset: BalanceAsset, baseUnits: bigint): AssetBalance {
+  return {
+    asset,
+    amount: asset === 'ETH' ? formatEther(baseUnits) : formatAmount(baseUnits),
+    baseUnits: baseUnits.toString()
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? (error as { shortMessage?: string }).shortMessage ?? error.message : 'Unknown error';
+}
+
+/**
+ * Affordability of `amount`. Without a network fee estimate, the gas balance is only checked for being empty.
+ */
+function affordability(
+  amount: bigint,
+  minimum: bigint,
+  token: AssetBalance,
+  gas: AssetBalance,
+  networkFee: AssetBalance | null
+): Affordability {
+  const shortfalls: string[] = [];
+  const held = BigInt(token.baseUnits);
+
+  if (amount < minimum) {
+    shortfalls.push(`${formatAmount(amount)} ${token.asset} is below the ${formatAmount(minimum)} ${token.asset} minimum`);
+  }
+  if (held < amount) {
+    shortfalls.push(`Holds ${token.amount} ${token.asset}, ${formatAmount(amount - held)} ${token.asset} short`);
+  }
+  if (networkFee && BigInt(gas.baseUnits) < BigInt(networkFee.baseUnits)) {
+    shortfalls.push(`Holds ${gas.amount} ${gas.asset} but the network fee is about ${networkFee.amount} ${gas.asset}`);
+  } else if (!networkFee && BigInt(gas.baseUnits) === 0n) {
+    shortfalls.push(`Holds no ${gas.asset} for the network fee`);
+  }
+
+  return {
+    amount: formatAmount(amount),
+    amountBaseUnits: amount.toString(),
+    canAfford: shortfalls.length === 0,
+    networkFee,
+    shortfalls
+  };
+}
+
+/**
+ * ETH, USDC and allowance of an Ethereum address, plus deposit affordability for `amount`.
+ * The deposit gas is estimated against `stacksRecipient` when one is known. A failed fee estimate
+ * leaves the balances in place and marks the network fee unavailable.
+ */
+async function ethereumAccount(address: string, amount?: bigint, stacksRecipient?: string): Promise<EthereumAccount> {
+  const owner = getAddress(address);
+  const balances = await getEthereumBalances(owner);
+  const account: EthereumAccount = {
+    address: owner,
+    eth: assetBalance('ETH', balances.eth),
+    usdc: assetBalance('USDC', balances.usdc),
+    allowance: assetBalance('USDC', balances.allowance)
+  };
+
+  if (amount !== undefined) {
+    const minimum = getNetworkProfile().limits.minDeposit;
+    try {
+      const fees = await estimateDepositFees(amount, owner, stacksRecipient, { usePermit: true });
+      account.affordability = {
+        ...affordability(amount, minimum, account.usdc, account.eth, assetBalance('ETH', fees.expectedFee)),
+        requiresApproval: fees.requiresApproval
+      };
+    } catch (error) {
+      account.affordability = {
+        ...affordability(amount, minimum, account.usdc, account.eth, null),
+        networkFeeError: errorMessage(error),
+        requiresApproval: balances.allowance < amount
+      };
+    }
+  }
+  return account;
+}
+
+/**
+ * Unlocked STX and USDCx of a Stacks address, plus withdrawal affordability for `amount`
+ */
+async function stacksAccount(address: string, amount?: bigint, ethereumRecipient?: string): Promise<StacksAccount> {
+  const balances = await getStacksBalances(address);
+  const account: StacksAccount = {
+    address,
+    stx: assetBalance('STX', balances.stx),
+    usdcx: assetBalance('USDCx', balances.usdcx)
+  };
+
+  if (amount !== undefined) {
+    // The burn's arguments barely affect its cost, so any recipient prices it
+    const fees = await estimateBurnFee(amount, ethereumRecipient ?? getNetworkProfile().ethereum.xreserveContract);
+    account.affordability = affordability(amount, getNetworkProfile().limits.minWithdrawal, account.usdcx, account.stx, assetBalance('STX', fees.medium));
+  }
+  return account;
+}
+
+/**
+ * Balances for whichever addresses are given. Each side is read independently, and a side
+ * whose node fails is returned as an error rather than as zero.
+ */
+export async function getBalances({ ethereumAddress, stacksAddress, amount }: BalanceRequest): Promise<BalanceReport> {
+  const [ethereum, stacks] = await Promise.all([
+    ethereumAddress
+      ? ethereumAccount(ethereumAddress, amount, stacksAddress).catch(error => ({ address: ethereumAddress, error: errorMessage(error) }))
+      : undefined,
+    stacksAddress
+      ? stacksAccount(stacksAddress, amount, ethereumAddress).catch(error => ({ address: stacksAddress, error: errorMessage(error) }))
+      : undefined
+  ]);
+
+  return { ...(ethereum && { ethereum }), ...(stacks && { stacks }) };
+}
@@ -0,0 +1,173 @@
+// Configuration loader: environment variables plus an optional JSON config file
+import fs from 'fs';
+import { z } from 'zod';
+
+const networkName = z.enum(['mainnet', 'testnet', 'devnet']);
+
+const ethereumAddress = z.string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, 'must be a 0x-prefixed 40 character hex address');
+
+const contractId = z.string()
+  .regex(/^S[PMTN][0-9A-Z]{38,40}\.[a-zA-Z][a-zA-Z0-9-]*$/, 'must look like <stacks-address>.<contract-name>');
+
+const domain = z.string()
+  .regex(/^\d+$/, 'must be a non-negative integer')
+  .transform(Number);
+
+const usdcAmount = z.string()
+  .regex(/^\d+(\.\d{1,6})?$/, 'must be a decimal USDC amount with at most 6 decimals');
+
+const port = z.string()
+  .regex(/^\d+$/, 'must be an integer')
+  .transform(Number)
+  .refine(value => value > 0 && value < 65536, 'must be between 1 and 65535');
+
+/**
+ * Every setting the server reads. Values arrive as strings from either source.
+ */
+const SettingsSchema = z.strictObject({
+  NODE_ENV: z.string().optional(),
+  PORT: port.optional(),
+  BASE_URL: z.url().optional(),
+  BRIDGE_NETWORK: networkName.optional(),
+  ETHEREUM_NETWORK: networkName.optional(),
+  STACKS_NETWORK: networkName.optional(),
+  ETHEREUM_RPC_URL: z.url().optional(),
+  STACKS_API_URL: z.url().optional(),
+  XRESERVE_CONTRACT: ethereumAddress.optional(),
+  USDC_CONTRACT: ethereumAddress.optional(),
+  STACKS_USDCX_CONTRACT: contractId.optional(),
+  STACKS_USDCX_TOKEN_CONTRACT: contractId.optional(),
+  ETHEREUM_DOMAIN: domain.optional(),
+  STACKS_DOMAIN: domain.optional(),
+  XRESERVE_MAX_FEE: usdcAmount.optional(),
+  BRIDGE_JOURNAL_PATH: z.string().min(1, 'must not be empty').optional()
+});
+
+export type BridgeSettings = z.infer<typeof SettingsSchema>;
+export type SettingKey = keyof BridgeSettings;
+
+const SETTING_KEYS = Object.keys(SettingsSchema.shape) as SettingKey[];
+
+// Environment variables in our namespaces that are not settings are most likely typos
+const OWNED_ENV_PREFIXES = /^(BRIDGE|ETHEREUM|STACKS|XRESERVE|USDC)_/;
+
+export interface BridgeConfig {
+  settings: BridgeSettings;
+  sources: Partial<Record<SettingKey, 'env' | 'file'>>;
+  configFile?: string;
+  warnings: string[];
+}
+
+/**
+ * Raised when settings are malformed or contradict each other
+ */
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Config file path from `--config <path>` or BRIDGE_CONFIG
+ */
+function configFilePath(env: NodeJS.ProcessEnv, argv: string[]): string | undefined {
+  const flag = argv.indexOf('--config');
+  if (flag !== -1) {
+    return argv[flag + 1];
+  }
+  return env.BRIDGE_CONFIG || undefined;
+}
+
+function readConfigFile(path: string, problems: string[]): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      problems.push(`${path}: expected a JSON object of settings`);
+      return {};
+    }
+    // Numbers are accepted in the file for convenience; the schema parses strings
+    return Object.fromEntries(
+      Object.entries(parsed).map(([key, value]) => [key, typeof value === 'number' ? String(value) : value])
+    );
+  } catch (error) {
+    problems.push(`${path}: ${error instanceof Error ? error.message : 'could not be read'}`);
+    return {};
+  }
+}
+
+/**
+ * Parse settings from the config file and environment (environment wins)
+ */
+export function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv
+): BridgeConfig {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const sources: BridgeConfig['sources'] = {};
+  const raw: Record<string, unknown> = {};
+
+  const configFile = configFilePath(env, argv);
+  if (configFile) {
+    const fileSettings = readConfigFile(configFile, problems);
+    for (const [key, value] of Object.entries(fileSettings)) {
+      raw[key] = value;
+      sources[key as SettingKey] = 'file';
+    }
+  }
+
+  for (const [key, value] of Object.entries(env)) {
+    if (!value) continue;
+    if (SETTING_KEYS.includes(key as SettingKey)) {
+      raw[key] = value;
+      sources[key as SettingKey] = 'env';
+    } else if (OWNED_ENV_PREFIXES.test(key) && key !== 'BRIDGE_CONFIG') {
+      warnings.push(`Unknown environment variable ${key} is ignored`);
+    }
+  }
+
+  const parsed = SettingsSchema.safeParse(raw);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      if (issue.code === 'unrecognized_keys') {
+        problems.push(`Unknown setting${issue.keys.length > 1 ? 's' : ''} in ${configFile}: ${issue.keys.join(', ')}`);
+      } else {
+        const key = issue.path.join('.');
+        problems.push(`${key} (from ${sources[key as SettingKey] ?? 'config'}) ${issue.message}`);
+      }
+    }
+    throw new ConfigError(problems);
+  }
+
+  const settings = parsed.data;
+
+  // Every network selector that is set must name the same network
+  const selectors = (['BRIDGE_NETWORK', 'ETHEREUM_NETWORK', 'STACKS_NETWORK'] as const)
+    .filter(key => settings[key] !== undefined);
+  const selected = new Set(selectors.map(key => settings[key]));
+  if (selected.size > 1) {
+    problems.push(`Network selectors disagree: ${selectors.map(key => `${key}=${settings[key]}`).join(', ')}`);
+  } else if (settings.BRIDGE_NETWORK) {
+    for (const key of selectors.filter(key => key !== 'BRIDGE_NETWORK')) {
+      warnings.push(`${key} is redundant with BRIDGE_NETWORK and is ignored`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return { settings, sources, configFile, warnings };
+}
+
+let activeConfig: BridgeConfig | undefined;
+
+/**
+ * The configuration for this process, loaded on first use
+ */
+export function getConfig(): BridgeConfig {
+  activeConfig ??= loadConfig();
+  return activeConfig;
+}
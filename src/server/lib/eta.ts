@@ -0,0 +1,220 @@
+// Transfer time estimates from recent completions in the journal and current chain conditions
+import { getEthereumConditions } from './ethereum.js';
+import { getStacksBlockSeconds } from './stacks.js';
+import { getNetworkProfile } from './network.js';
+import { getJournalEntries, type JournalEntry, type TransferDirection } from './journal.js';
+import type { TransferStatus } from './tracker.js';
+
+// Estimates use at most the 50 most recent completions from the last 14 days,
+// and fall back to defaults below 5
+const MAX_ETA_SAMPLES = 50;
+const ETA_SAMPLE_WINDOW_SECONDS = 14 * 24 * 60 * 60;
+const MIN_ETA_SAMPLES = 5;
+// Chain conditions are re-measured at most once a minute
+const CONDITIONS_TTL_MS = 60_000;
+
+// Used when a chain cannot be measured (Stacks figure is the pre-Nakamoto 10 minute block)
+const NOMINAL_ETHEREUM_BLOCK_SECONDS = 12;
+const NOMINAL_STACKS_BLOCK_SECONDS = 600;
+
+// Attestation plus destination mint or release, once the source is final, before any history exists
+const DEFAULT_SETTLEMENT_SECONDS: Record<TransferDirection, Percentiles> = {
+  deposit: { p10: 10 * 60, p50: 15 * 60, p90: 20 * 60 },
+  withdrawal: { p10: 20 * 60, p50: 30 * 60, p90: 45 * 60 }
+};
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface ChainConditions {
+  ethereumBlockSeconds: number;
+  ethereumFinalityLagSeconds: number | null;
+  stacksBlockSeconds: number;
+  measuredAt: string;
+}
+
+/**
+ * End-to-end transfer time: source confirmation under current conditions plus
+ * attestation and destination settlement from recent history
+ */
+export interface TransferTimeEstimate {
+  fast: string;
+  normal: string;
+  slow: string;
+  seconds: Percentiles;
+  confirmationSeconds: number;
+  settlementSeconds: Percentiles;
+  basis: 'history' | 'default';
+  samples: number;
+  conditions: ChainConditions;
+}
+
+let cachedConditions: { conditions: ChainConditions; expires: number } | undefined;
+
+/**
+ * Current block times and finality lag, cached briefly. A chain that cannot be measured gets its nominal block time.
+ */
+async function getChainConditions(): Promise<ChainConditions> {
+  if (cachedConditions && cachedConditions.expires > Date.now()) {
+    return cachedConditions.conditions;
+  }
+
+  const [ethereum, stacksBlockSeconds] = await Promise.all([
+    getEthereumConditions().catch(error => {
+      console.warn('Could not measure Ethereum conditions:', error);
+      return { blockSeconds: NOMINAL_ETHEREUM_BLOCK_SECONDS, finalityLagSeconds: null };
+    }),
+    getStacksBlockSeconds().catch(error => {
+      console.warn('Could not measure Stacks block time:', error);
+      return NOMINAL_STACKS_BLOCK_SECONDS;
+    })
+  ]);
+
+  const conditions: ChainConditions = {
+    ethereumBlockSeconds: ethereum.blockSeconds,
+    ethereumFinalityLagSeconds: ethereum.finalityLagSeconds,
+    stacksBlockSeconds,
+    measuredAt: new Date().toISOString()
+  };
+  cachedConditions = { conditions, expires: Date.now() + CONDITIONS_TTL_MS };
+  return conditions;
+}
+
+/**
+ * Seconds until the source transaction is final, given the confirmations it already has.
+ * Deposits are final at the required confirmations or at Ethereum finality, whichever comes first.
+ */
+function confirmationSeconds(direction: TransferDirection, conditions: ChainConditions, confirmations = 0): number {
+  const { ethereum, stacks } = getNetworkProfile();
+
+  if (direction === 'withdrawal') {
+    return Math.max(stacks.requiredConfirmations - confirmations, 0) * conditions.stacksBlockSeconds;
+  }
+
+  const byConfirmations = Math.max(ethereum.requiredConfirmations - confirmations, 0) * conditions.ethereumBlockSeconds;
+  if (conditions.ethereumFinalityLagSeconds === null) {
+    return byConfirmations;
+  }
+  const byFinality = Math.max(conditions.ethereumFinalityLagSeconds - confirmations * conditions.ethereumBlockSeconds, 0);
+  return Math.min(byConfirmations, byFinality);
+}
+
+function seconds(iso: string): number {
+  return Date.parse(iso) / 1000;
+}
+
+/**
+ * Attestation-plus-settlement durations of recent completed transfers. When the confirmation was
+ * never observed, it is approximated from the source block time and current conditions.
+ */
+function settlementSamples(direction: TransferDirection, conditions: ChainConditions): number[] {
+  const cutoff = Date.now() / 1000 - ETA_SAMPLE_WINDOW_SECONDS;
+
+  return getJournalEntries()
+    .filter((entry): entry is JournalEntry & { sourceIncludedAt: string; deliveredAt: string } =>
+      entry.direction === direction && entry.state === 'completed' &&
+      entry.sourceIncludedAt !== undefined && entry.deliveredAt !== undefined &&
+      seconds(entry.deliveredAt) >= cutoff
+    )
+    .sort((a, b) => seconds(b.deliveredAt) - seconds(a.deliveredAt))
+    .slice(0, MAX_ETA_SAMPLES)
+    .map(entry => {
+      const confirmed = entry.confirmedAt
+        ? seconds(entry.confirmedAt)
+        : seconds(entry.sourceIncludedAt) + confirmationSeconds(direction, conditions);
+      return Math.max(seconds(entry.deliveredAt) - confirmed, 0);
+    });
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(Math.ceil((p / 100) * sorted.length), sorted.length) - 1];
+}
+
+/**
+ * Human-readable duration such as "~40 seconds", "~12 minutes" or "~1 hour 20 minutes"
+ */
+export function formatDuration(totalSeconds: number): string {
+  if (totalSeconds < 90) {
+    return `~${Math.max(Math.round(totalSeconds), 1)} seconds`;
+  }
+  const minutes = Math.round(totalSeconds / 60);
+  if (minutes < 90) {
+    return `~${minutes} minutes`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return `~${hours} hour${hours === 1 ? '' : 's'}${minutes % 60 ? ` ${minutes % 60} minutes` : ''}`;
+}
+
+/**
+ * Expected time for a new transfer, from signing to funds on the destination chain
+ */
+export async function estimateTransferTime(direction: TransferDirection): Promise<TransferTimeEstimate> {
+  const conditions = await getChainConditions();
+  const samples = settlementSamples(direction, conditions).sort((a, b) => a - b);
+  const basis = samples.length >= MIN_ETA_SAMPLES ? 'history' : 'default';
+
+  const settlementSeconds: Percentiles = basis === 'history'
+    ? { p10: percentile(samples, 10), p50: percentile(samples, 50), p90: percentile(samples, 90) }
+    : DEFAULT_SETTLEMENT_SECONDS[direction];
+  const confirmation = confirmationSeconds(direction, conditions);
+  const total: Percentiles = {
+    p10: confirmation + settlementSeconds.p10,
+    p50: confirmation + settlementSeconds.p50,
+    p90: confirmation + settlementSeconds.p90
+  };
+
+  return {
+    fast: formatDuration(total.p10),
+    normal: formatDuration(total.p50),
+    slow: formatDuration(total.p90),
+    seconds: total,
+    confirmationSeconds: confirmation,
+    settlementSeconds,
+    basis,
+    samples: samples.length,
+    conditions
+  };
+}
+
+/**
+ * Remaining time for an in-flight transfer, or undefined when its state has no ETA
+ */
+export async function estimateRemainingTime(
+  direction: TransferDirection,
+  status: TransferStatus,
+  confirmedAt?: string
+): Promise<string | undefined> {
+  if (status.state !== 'confirming' && status.state !== 'attesting') {
+    return undefined;
+  }
+
+  const estimate = await estimateTransferTime(direction);
+  const { settlementSeconds, conditions } = estimate;
+
+  if (status.state === 'confirming') {
+    const toFinal = confirmationSeconds(direction, conditions, status.confirmations);
+    return `${formatDuration(toFinal + settlementSeconds.p50)} (final in ${formatDuration(toFinal)}, then attestation)`;
+  }
+
+  // Attesting: measure from when the source became final
+  const included = status.deposit?.timestamp ?? status.withdrawal?.timestamp;
+  const since = confirmedAt ? seconds(confirmedAt)
+    : included !== undefined ? included + confirmationSeconds(direction, conditions)
+    : undefined;
+  if (since === undefined) {
+    return `${formatDuration(settlementSeconds.p50)} (attestation in progress)`;
+  }
+
+  const elapsed = Date.now() / 1000 - since;
+  if (elapsed < settlementSeconds.p50) {
+    return `${formatDuration(settlementSeconds.p50 - elapsed)} (attestation in progress)`;
+  }
+  if (elapsed < settlementSeconds.p90) {
+    return `Any moment now; most transfers settle within ${formatDuration(settlementSeconds.p90)} of confirmation`;
+  }
+  return `Taking longer than usual: ${formatDuration(elapsed)} since confirmation, against a usual maximum of ${formatDuration(settlementSeconds.p90)}`;
+}
@@ -2,32 +2,35 @@
 import {
   createPublicClient,
   http,
-  parseUnits,
   type Address,
   type Hex,
-  encodeFunctionData
+  type PublicClient,
+  encodeFunctionData,
+  decodeFunctionData,
+  hexToBytes,
+  parseAbiItem,
+  parseEventLogs,
+  parseAbi,
+  keccak256,
+  encodeAbiParameters,
+  toHex,
+  BaseError,
+  ContractFunctionRevertedError,
+  TransactionReceiptNotFoundError,
+  getAddress,
+  domainSeparator,
+  maxUint256,
+  zeroAddress,
+  zeroHash,
+  type StateOverride
 } from 'viem';
-import { mainnet, sepolia } from 'viem/chains';
-import { encodeStacksAddress } from './helpers.js';
+import { encodeStacksAddress, remoteRecipientCoder } from './helpers.js';
+import { getNetworkProfile } from './network.js';
+import { formatAmount } from '../../shared/amount.js';
+import { explorerTxUrl } from '../../shared/network.js';
+import { XRESERVE_ABI, PERMIT_TYPES, type DepositPermit } from '../../shared/xreserve.js';
 
 // Contract ABIs from official docs
-const XRESERVE_ABI = [
-  {
-    name: 'depositToRemote',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'value', type: 'uint256' },
-      { name: 'remoteDomain', type: 'uint32' },
-      { name: 'remoteRecipient', type: 'bytes32' },
-      { name: 'localToken', type: 'address' },
-      { name: 'maxFee', type: 'uint256' },
-      { name: 'hookData', type: 'bytes' }
-    ],
-    outputs: []
-  }
-] as const;
-
 const ERC20_ABI = [
   {
     name: 'approve',
@@ -58,25 +61,77 @@ const ERC20_ABI = [
   }
 ] as const;
 
-// Constants from official docs
-const STACKS_DOMAIN = 10003;
+// EIP-2612 surface of USDC (FiatToken v2)
+const PERMIT_ABI = parseAbi([
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)'
+]);
+
+// Errors the deposit can revert with, so simulations decode them by name
+const DEPOSIT_ERRORS = parseAbi([
+  'error EnforcedPause()',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)'
+]);
 
-// Network-specific contract addresses
-const isMainnet = process.env.ETHEREUM_NETWORK === 'mainnet';
-const XRESERVE_CONTRACT = process.env.XRESERVE_CONTRACT as Address ||
-  (isMainnet ? '0x8888888199b2Df864bf678259607d6D5EBb4e3Ce' : '0x008888878f94C0d87defdf0B07f46B93C1934442');
-const USDC_CONTRACT = process.env.USDC_CONTRACT as Address ||
-  (isMainnet ? '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' : '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238');
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
 
-// Create public client for reading blockchain state
-const chain = isMainnet ? mainnet : sepolia;
-const rpcUrl = process.env.ETHEREUM_RPC_URL ||
-  (isMainnet ? 'https://ethereum.publicnode.com' : 'https://ethereum-sepolia.publicnode.com');
+// Ethereum blocks are ~12 seconds apart; release searches are capped at ~2 weeks of blocks
+const SECONDS_PER_BLOCK = 12n;
+const MAX_RELEASE_SEARCH_BLOCKS = 100_000n;
+// Address history looks back at most ~30 days
+const MAX_HISTORY_SEARCH_BLOCKS = 216_000n;
+const LOG_CHUNK_BLOCKS = 10_000n;
+// Gas used when the node cannot estimate, or there is no sender and recipient to estimate with
+const DEFAULT_APPROVAL_GAS = 60_000n;
+const DEFAULT_DEPOSIT_GAS = 150_000n;
+// Extra gas for verifying the permit and writing the allowance inside a permit deposit
+const DEFAULT_PERMIT_GAS = 40_000n;
+// Permits are signed for deposits sent within 30 minutes of preparing them
+const PERMIT_DEADLINE_SECONDS = 30 * 60;
+// Block time is measured over this many recent blocks
+const BLOCK_TIME_SAMPLE_BLOCKS = 32n;
+// Block timestamps kept for log scans, oldest dropped first
+const MAX_CACHED_BLOCK_TIMES = 5_000;
+// Storage slot of the FiatToken (USDC) `allowed` mapping, overridden to simulate past a pending approval
+const USDC_ALLOWANCE_SLOT = 10n;
 
-const publicClient = createPublicClient({
-  chain,
-  transport: http(rpcUrl)
-});
+// Timestamps of blocks seen in log scans, by block number
+const blockTimes = new Map<bigint, bigint>();
+
+// Whether deposits can use a permit, probed once per process (null when they cannot)
+let permitDomain: Promise<DepositPermit['domain'] | null> | undefined;
+
+// Clients are created on first use so the network profile is validated before any RPC call
+let publicClient: PublicClient | undefined;
+
+function getPublicClient(): PublicClient {
+  if (!publicClient) {
+    const { ethereum } = getNetworkProfile();
+    publicClient = createPublicClient({
+      chain: ethereum.chain,
+      transport: http(ethereum.rpcUrl)
+    });
+  }
+  return publicClient;
+}
+
+/**
+ * Timestamp of a block, fetched once per block number
+ */
+async function getBlockTimestamp(blockNumber: bigint): Promise<bigint> {
+  let timestamp = blockTimes.get(blockNumber);
+  if (timestamp === undefined) {
+    timestamp = (await getPublicClient().getBlock({ blockNumber })).timestamp;
+    if (blockTimes.size >= MAX_CACHED_BLOCK_TIMES) {
+      blockTimes.delete(blockTimes.keys().next().value!);
+    }
+    blockTimes.set(blockNumber, timestamp);
+  }
+  return timestamp;
+}
 
 export interface DepositTransactionData {
   to: Address;
@@ -84,10 +139,31 @@ export interface DepositTransactionData {
   value: string;
   estimatedGas: string;
   requiresApproval: boolean;
-  approvalTx?: {
-    to: Address;
-    data: Hex;
-  };
+  approvalTx?: ApprovalTransaction;
+  permit?: DepositPermit; // sign this and call depositToRemoteWithPermit instead of approving
+}
+
+/**
+ * How much xReserve is approved for when a deposit needs an approval
+ */
+export type ApprovalStrategy =
+  | { kind: 'exact' } // the deposit amount; every deposit needs a new approval
+  | { kind: 'capped'; cap: bigint } // a fixed allowance covering several deposits
+  | { kind: 'unlimited' }; // maxUint256; xReserve can spend any USDC until revoked
+
+/**
+ * USDC approve call setting the xReserve allowance
+ */
+export interface ApprovalTransaction {
+  to: Address;
+  data: Hex;
+  amount: string; // base units of the allowance being set
+  unlimited: boolean;
+}
+
+export interface DepositOptions {
+  usePermit?: boolean;
+  approval?: ApprovalStrategy;
 }
 
 export interface TransactionStatus {
@@ -96,163 +172,778 @@ export interface TransactionStatus {
   explorerUrl: string;
   eta?: string;
   errorMessage?: string;
+  inclusion?: BlockInclusion;
+  finality?: 'unsafe' | 'safe' | 'finalized';
+  reorg?: BlockInclusion; // the inclusion that was reorganized away, if any
+  lookupFailed?: boolean; // the node could not be queried, so `state` is a placeholder rather than news
 }
 
-/**
- * Prepare deposit transaction data (user signs in widget)
- */
-export async function prepareDepositTransaction(
-  amount: string,
-  stacksRecipient: string,
-  userAddress: Address
-): Promise<DepositTransactionData> {
-  // Validate inputs
-  if (parseFloat(amount) < 1) {
-    throw new Error('Minimum deposit is 1 USDC on testnet');
-  }
+export interface BlockInclusion {
+  blockNumber: string;
+  blockHash: Hex;
+}
 
-  // Convert amount to wei (USDC has 6 decimals)
-  const value = parseUnits(amount, 6);
+export interface DepositDetails {
+  sender: Address;
+  amount: bigint;
+  remoteDomain: number;
+  remoteRecipient: Hex; // bytes32 as submitted
+  stacksRecipient: string | null; // null when the bytes32 is not a valid Stacks address encoding
+  localToken: Address;
+  maxFee: bigint;
+  hookData: Hex;
+  calldataHash: Hex; // keccak256 of the depositToRemote input (rebuilt for permit deposits), as recorded in the transfer journal
+  transferredAmount?: bigint; // USDC pulled into xReserve according to the receipt logs
+  gasFee?: bigint; // wei paid for the transaction, once mined
+  timestamp?: bigint; // unix seconds of the inclusion block, once mined
+}
 
-  // Encode Stacks address to bytes32
-  const remoteRecipient = encodeStacksAddress(stacksRecipient);
+export interface DepositLog {
+  txHash: Hex;
+  blockNumber: bigint;
+  amount: bigint;
+  timestamp: bigint;
+}
 
-  // Check current allowance
-  const currentAllowance = await publicClient.readContract({
-    address: USDC_CONTRACT,
-    abi: ERC20_ABI,
-    functionName: 'allowance',
-    args: [userAddress, XRESERVE_CONTRACT]
-  });
+export interface USDCRelease {
+  txHash: Hex;
+  amount: bigint;
+  blockNumber: bigint;
+  timestamp: bigint;
+}
 
-  const requiresApproval = currentAllowance < value;
-
-  // Prepare approval transaction if needed
-  let approvalTx;
-  if (requiresApproval) {
-    approvalTx = {
-      to: USDC_CONTRACT,
-      data: encodeFunctionData({
-        abi: ERC20_ABI,
-        functionName: 'approve',
-        args: [XRESERVE_CONTRACT, value]
-      })
-    };
-  }
+export interface DepositFeeEstimate {
+  requiresApproval: boolean;
+  permit: boolean; // the approval is replaced by a signed permit
+  approvalGas: bigint; // 0 when the allowance already covers the deposit or a permit replaces the approval
+  depositGas: bigint; // includes DEFAULT_PERMIT_GAS for permit deposits
+  gasEstimated: boolean; // false when the deposit gas is DEFAULT_DEPOSIT_GAS rather than an RPC estimate
+  baseFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  expectedFee: bigint; // wei at the current base fee plus priority fee
+  maxNetworkFee: bigint; // wei if every gas unit is charged maxFeePerGas
+}
 
-  // Prepare deposit transaction data
-  const depositData = encodeFunctionData({
+/**
+ * Prepared deposit calls plus the fee estimate they were priced with
+ */
+export interface PreparedDeposit {
+  txData: DepositTransactionData;
+  fees: DepositFeeEstimate;
+}
+
+/**
+ * depositToRemote calldata for a deposit to a Stacks address
+ */
+function encodeDeposit(value: bigint, stacksRecipient: string): Hex {
+  const { ethereum, stacks } = getNetworkProfile();
+  return encodeFunctionData({
     abi: XRESERVE_ABI,
     functionName: 'depositToRemote',
     args: [
       value,
-      STACKS_DOMAIN,
-      remoteRecipient,
-      USDC_CONTRACT,
-      BigInt(0), // maxFee
+      stacks.domain,
+      encodeStacksAddress(stacksRecipient),
+      ethereum.usdcContract,
+      ethereum.depositMaxFee,
       '0x' as Hex // hookData
     ]
   });
+}
+
+function encodeApproval(value: bigint): Hex {
+  return encodeFunctionData({
+    abi: ERC20_ABI,
+    functionName: 'approve',
+    args: [getNetworkProfile().ethereum.xreserveContract, value]
+  });
+}
 
-  // Estimate gas (only if no approval needed, otherwise skip to avoid "exceeds allowance" error)
-  let estimatedGas = BigInt(150000); // Default estimate
-  if (!requiresApproval) {
+/**
+ * Whether an allowance is effectively unlimited (some wallets approve slightly below maxUint256)
+ */
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+  return allowance >= maxUint256 / 2n;
+}
+
+/**
+ * approve call setting the xReserve allowance to `amount` (0 revokes it)
+ */
+export function buildApprovalTransaction(amount: bigint): ApprovalTransaction {
+  return {
+    to: getNetworkProfile().ethereum.usdcContract,
+    data: encodeApproval(amount),
+    amount: amount.toString(),
+    unlimited: isUnlimitedAllowance(amount)
+  };
+}
+
+/**
+ * Gas for an approve call from `owner`, or DEFAULT_APPROVAL_GAS when the node cannot estimate it
+ */
+export async function estimateApprovalGas(owner: Address, data: Hex): Promise<bigint> {
+  try {
+    return await getPublicClient().estimateGas({ to: getNetworkProfile().ethereum.usdcContract, data, account: owner });
+  } catch (error) {
+    console.warn('Approval gas estimation failed, using default:', error);
+    return DEFAULT_APPROVAL_GAS;
+  }
+}
+
+function approvalAmount(strategy: ApprovalStrategy, value: bigint): bigint {
+  switch (strategy.kind) {
+    case 'exact':
+      return value;
+    case 'capped':
+      if (strategy.cap < value) {
+        throw new Error(`Approval cap ${formatAmount(strategy.cap)} USDC is below the ${formatAmount(value)} USDC deposit`);
+      }
+      return strategy.cap;
+    case 'unlimited':
+      return maxUint256;
+  }
+}
+
+/**
+ * State override granting xReserve an allowance, as if the pending approval were already mined
+ */
+function allowanceOverride(owner: Address, value: bigint): StateOverride {
+  const { ethereum } = getNetworkProfile();
+  const ownerSlot = keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [owner, USDC_ALLOWANCE_SLOT]));
+  const slot = keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [ethereum.xreserveContract, ownerSlot]));
+  return [{ address: ethereum.usdcContract, stateDiff: [{ slot, value: toHex(value, { size: 32 }) }] }];
+}
+
+/**
+ * Whether xReserve implements depositToRemoteWithPermit, probed by calling it with an empty deposit.
+ * A contract without the function reverts with no data; one with it rejects the deposit with an error.
+ * RPC failures are thrown.
+ */
+async function hasPermitDeposit(): Promise<boolean> {
+  const { ethereum, stacks } = getNetworkProfile();
+  try {
+    await getPublicClient().simulateContract({
+      address: ethereum.xreserveContract,
+      abi: XRESERVE_ABI,
+      functionName: 'depositToRemoteWithPermit',
+      args: [0n, stacks.domain, zeroHash, ethereum.usdcContract, 0n, '0x', 0n, '0x'],
+      account: zeroAddress
+    });
+    return true;
+  } catch (error) {
+    const revert = error instanceof BaseError ? error.walk(e => e instanceof ContractFunctionRevertedError) : null;
+    if (!(revert instanceof ContractFunctionRevertedError)) {
+      throw error;
+    }
+    return revert.raw !== undefined && revert.raw !== '0x';
+  }
+}
+
+/**
+ * EIP-712 domain of USDC permits, or null when deposits cannot use one: xReserve must answer a
+ * depositToRemoteWithPermit call, and USDC must answer nonces and expose a DOMAIN_SEPARATOR matching
+ * its name and version. A token without them fails the calls. Probed once; a failed RPC probe is retried.
+ */
+function getPermitDomain(): Promise<DepositPermit['domain'] | null> {
+  permitDomain ??= (async () => {
+    const { ethereum } = getNetworkProfile();
+    const client = getPublicClient();
+    const read = <F extends 'name' | 'version' | 'DOMAIN_SEPARATOR'>(functionName: F) =>
+      client.readContract({ address: ethereum.usdcContract, abi: PERMIT_ABI, functionName });
+
+    if (!(await hasPermitDeposit())) {
+      return null;
+    }
+
+    let token;
+    try {
+      token = await Promise.all([
+        read('name'),
+        read('version'),
+        read('DOMAIN_SEPARATOR'),
+        client.readContract({ address: ethereum.usdcContract, abi: PERMIT_ABI, functionName: 'nonces', args: [zeroAddress] })
+      ]);
+    } catch (error) {
+      if (error instanceof BaseError && error.walk(e => e instanceof ContractFunctionRevertedError)) {
+        return null;
+      }
+      throw error;
+    }
+
+    const [name, version, separator] = token;
+    const domain = { name, version, chainId: ethereum.chain.id, verifyingContract: ethereum.usdcContract };
+    return domainSeparator({ domain }) === separator ? domain : null;
+  })().catch(error => {
+    console.warn('Permit support check failed, using approvals:', error);
+    permitDomain = undefined;
+    return null;
+  });
+  return permitDomain;
+}
+
+/**
+ * Typed data for the user to sign so xReserve can pull `value` USDC without an approval.
+ * depositToRemoteWithPermit takes no separate permit amount, so the permit is always for exactly `value`.
+ */
+async function buildDepositPermit(owner: Address, value: bigint): Promise<DepositPermit> {
+  const { ethereum } = getNetworkProfile();
+  const [domain, nonce] = await Promise.all([
+    getPermitDomain(),
+    getPublicClient().readContract({ address: ethereum.usdcContract, abi: PERMIT_ABI, functionName: 'nonces', args: [owner] })
+  ]);
+  if (!domain) {
+    throw new Error('USDC permits are not available for xReserve deposits');
+  }
+
+  return {
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: {
+      owner,
+      spender: ethereum.xreserveContract,
+      value: value.toString(),
+      nonce: nonce.toString(),
+      deadline: String(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS)
+    }
+  };
+}
+
+/**
+ * EIP-1559 fee estimate for approve (when needed) plus depositToRemote.
+ * Without a sender the approval is assumed to be needed; its gas is estimated for the approve call the
+ * approval strategy would send. While the allowance is short the deposit is estimated with that allowance
+ * as an override; without a sender and recipient it uses DEFAULT_DEPOSIT_GAS.
+ * With `usePermit` (default false here) and the exact strategy, a sender whose allowance is short is
+ * priced for a permit deposit when xReserve supports one.
+ */
+export async function estimateDepositFees(
+  value: bigint,
+  userAddress?: Address,
+  stacksRecipient?: string,
+  { usePermit = false, approval = { kind: 'exact' } }: DepositOptions = {}
+): Promise<DepositFeeEstimate> {
+  const { ethereum } = getNetworkProfile();
+  const client = getPublicClient();
+
+  const [allowance, block, { maxFeePerGas, maxPriorityFeePerGas }] = await Promise.all([
+    userAddress
+      ? client.readContract({
+          address: ethereum.usdcContract,
+          abi: ERC20_ABI,
+          functionName: 'allowance',
+          args: [userAddress, ethereum.xreserveContract]
+        })
+      : Promise.resolve(0n),
+    client.getBlock({ blockTag: 'latest' }),
+    client.estimateFeesPerGas()
+  ]);
+
+  const requiresApproval = allowance < value;
+  const approvalValue = approvalAmount(approval, value);
+  const permit = requiresApproval && usePermit && approval.kind === 'exact' && userAddress !== undefined &&
+    (await getPermitDomain()) !== null;
+
+  let approvalGas = requiresApproval && !permit ? DEFAULT_APPROVAL_GAS : 0n;
+  if (approvalGas > 0n && userAddress) {
+    approvalGas = await estimateApprovalGas(userAddress, encodeApproval(approvalValue));
+  }
+
+  let depositGas = DEFAULT_DEPOSIT_GAS;
+  let gasEstimated = false;
+  if (userAddress && stacksRecipient) {
     try {
-      estimatedGas = await publicClient.estimateGas({
-        to: XRESERVE_CONTRACT,
-        data: depositData,
-        account: userAddress
+      depositGas = await client.estimateGas({
+        to: ethereum.xreserveContract,
+        data: encodeDeposit(value, stacksRecipient),
+        account: userAddress,
+        ...(requiresApproval && { stateOverride: allowanceOverride(userAddress, approvalValue) })
       });
+      gasEstimated = true;
     } catch (error) {
-      // If estimation fails, use default
-      console.warn('Gas estimation failed, using default:', error);
+      console.warn('Deposit gas estimation failed, using default:', error);
     }
   }
 
+  if (permit) {
+    depositGas += DEFAULT_PERMIT_GAS;
+  }
+
+  const baseFeePerGas = block.baseFeePerGas ?? 0n;
+  const gas = approvalGas + depositGas;
+
   return {
-    to: XRESERVE_CONTRACT,
-    data: depositData,
-    value: '0x0', // No ETH value needed
-    estimatedGas: `0x${estimatedGas.toString(16)}`,
     requiresApproval,
-    approvalTx
+    permit,
+    approvalGas,
+    depositGas,
+    gasEstimated,
+    baseFeePerGas,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    expectedFee: gas * (baseFeePerGas + maxPriorityFeePerGas),
+    maxNetworkFee: gas * maxFeePerGas
   };
 }
 
+export interface EthereumBalances {
+  eth: bigint; // wei
+  usdc: bigint; // base units
+  allowance: bigint; // USDC the xReserve contract may pull
+}
+
 /**
- * Get USDC balance for an address
+ * ETH, USDC and xReserve allowance of an address. Throws when the RPC node cannot be read.
  */
-export async function getUSDCBalance(address: Address): Promise<string> {
+export async function getEthereumBalances(address: Address): Promise<EthereumBalances> {
+  const { ethereum } = getNetworkProfile();
+  const client = getPublicClient();
+
+  const [eth, usdc, allowance] = await Promise.all([
+    client.getBalance({ address }),
+    client.readContract({ address: ethereum.usdcContract, abi: ERC20_ABI, functionName: 'balanceOf', args: [address] }),
+    client.readContract({ address: ethereum.usdcContract, abi: ERC20_ABI, functionName: 'allowance', args: [address, ethereum.xreserveContract] })
+  ]);
+
+  return { eth, usdc, allowance };
+}
+
+export type DepositSimulation =
+  | { reverted: false }
+  | { reverted: true; reason: string };
+
+/**
+ * Run depositToRemote against the latest state without sending it. With `pendingApproval`
+ * the allowance is overridden, so only failures the approval would not fix are reported.
+ * Reverts are decoded to an error name or reason string; RPC failures are thrown.
+ */
+export async function simulateDeposit(
+  value: bigint,
+  stacksRecipient: string,
+  userAddress: Address,
+  pendingApproval: boolean
+): Promise<DepositSimulation> {
+  const { ethereum, stacks } = getNetworkProfile();
+
   try {
-    const balance = await publicClient.readContract({
-      address: USDC_CONTRACT,
-      abi: ERC20_ABI,
-      functionName: 'balanceOf',
-      args: [address]
+    await getPublicClient().simulateContract({
+      address: ethereum.xreserveContract,
+      abi: [...XRESERVE_ABI, ...DEPOSIT_ERRORS],
+      functionName: 'depositToRemote',
+      args: [
+        value,
+        stacks.domain,
+        encodeStacksAddress(stacksRecipient),
+        ethereum.usdcContract,
+        ethereum.depositMaxFee,
+        '0x'
+      ],
+      account: userAddress,
+      ...(pendingApproval && { stateOverride: allowanceOverride(userAddress, value) })
     });
+    return { reverted: false };
+  } catch (error) {
+    return { reverted: true, reason: revertReason(error) };
+  }
+}
 
-    return (Number(balance) / 1e6).toFixed(2);
+/**
+ * Reason string, or decoded error name and arguments, of a contract call revert. Anything else is rethrown.
+ */
+function revertReason(error: unknown): string {
+  const revert = error instanceof BaseError ? error.walk(e => e instanceof ContractFunctionRevertedError) : null;
+  if (!(revert instanceof ContractFunctionRevertedError)) {
+    throw error;
+  }
+
+  return revert.reason ??
+    (revert.data ? `${revert.data.errorName}(${(revert.data.args ?? []).map(String).join(', ')})`
+      : revert.signature ? `unknown error ${revert.signature}`
+      : 'reverted without a reason');
+}
+
+/**
+ * Why a mined deposit reverted: out of gas, or the decoded revert of its call replayed against
+ * the state before its block. Null when the replay succeeds (an earlier transaction in the block caused it).
+ */
+export async function getDepositRevertReason(txHash: Hex): Promise<string | null> {
+  const client = getPublicClient();
+  const [tx, receipt] = await Promise.all([
+    client.getTransaction({ hash: txHash }),
+    client.getTransactionReceipt({ hash: txHash })
+  ]);
+
+  if (receipt.gasUsed >= tx.gas) {
+    return `ran out of gas (limit ${tx.gas})`;
+  }
+
+  const call = decodeFunctionData({ abi: XRESERVE_ABI, data: tx.input });
+  try {
+    await client.simulateContract({
+      address: tx.to!,
+      abi: [...XRESERVE_ABI, ...DEPOSIT_ERRORS],
+      functionName: call.functionName,
+      args: call.args,
+      account: tx.from,
+      blockNumber: receipt.blockNumber - 1n
+    });
+    return null;
   } catch (error) {
-    console.error('Error fetching USDC balance:', error);
-    return '0.00';
+    return revertReason(error);
+  }
+}
+
+/**
+ * Prepare deposit transaction data (user signs in widget). A short allowance gets an approval sized by
+ * the approval strategy (exact by default). With `usePermit` and the exact strategy, it also gets permit
+ * typed data when xReserve supports it, and the approval stays as the fallback. A permit only covers
+ * one deposit, so capped and unlimited strategies always use the approval.
+ */
+export async function prepareDepositTransaction(
+  value: bigint,
+  stacksRecipient: string,
+  userAddress: Address,
+  { usePermit = true, approval = { kind: 'exact' } }: DepositOptions = {}
+): Promise<PreparedDeposit> {
+  const { ethereum, limits } = getNetworkProfile();
+
+  // Validate inputs (value is in USDC base units, 6 decimals)
+  if (value < limits.minDeposit) {
+    throw new Error(`Minimum deposit is ${formatAmount(limits.minDeposit)} USDC`);
+  }
+  const approvalValue = approvalAmount(approval, value);
+
+  let fees = await estimateDepositFees(value, userAddress, stacksRecipient, { usePermit, approval });
+  let permit: DepositPermit | undefined;
+  if (fees.permit) {
+    try {
+      permit = await buildDepositPermit(userAddress, value);
+    } catch (error) {
+      console.warn('Could not build a deposit permit, using an approval:', error);
+      fees = await estimateDepositFees(value, userAddress, stacksRecipient, { approval });
+    }
   }
+
+  const txData: DepositTransactionData = {
+    to: ethereum.xreserveContract,
+    data: encodeDeposit(value, stacksRecipient),
+    value: '0x0', // No ETH value needed
+    estimatedGas: `0x${fees.depositGas.toString(16)}`,
+    requiresApproval: fees.requiresApproval,
+    ...(fees.requiresApproval && {
+      approvalTx: buildApprovalTransaction(approvalValue)
+    }),
+    ...(permit && { permit })
+  };
+
+  return { txData, fees };
+}
+
+export interface EthereumConditions {
+  blockSeconds: number;
+  finalityLagSeconds: number | null; // how far the finalized block trails the tip; null when the node has no finalized tag
 }
 
 /**
- * Check transaction status on Ethereum
+ * Current Ethereum block time and finality lag, measured from recent blocks
  */
-export async function getEthereumTransactionStatus(txHash: Hex): Promise<TransactionStatus> {
+export async function getEthereumConditions(): Promise<EthereumConditions> {
+  const client = getPublicClient();
+  const latest = await client.getBlock({ blockTag: 'latest' });
+  const [earlier, finalized] = await Promise.all([
+    client.getBlock({ blockNumber: latest.number > BLOCK_TIME_SAMPLE_BLOCKS ? latest.number - BLOCK_TIME_SAMPLE_BLOCKS : 0n }),
+    client.getBlock({ blockTag: 'finalized' }).catch(() => null)
+  ]);
+
+  const blocks = latest.number - earlier.number;
+  return {
+    blockSeconds: blocks > 0n ? Number(latest.timestamp - earlier.timestamp) / Number(blocks) : Number(SECONDS_PER_BLOCK),
+    finalityLagSeconds: finalized ? Number(latest.timestamp - finalized.timestamp) : null
+  };
+}
+
+/**
+ * Check transaction status on Ethereum. `previous` is where the transaction was last seen included
+ * (kept in the transfer journal), so a reorg since then is reported.
+ */
+export async function getEthereumTransactionStatus(txHash: Hex, previous?: BlockInclusion): Promise<TransactionStatus> {
+  const { ethereum } = getNetworkProfile();
+  const client = getPublicClient();
+  const explorerUrl = explorerTxUrl(ethereum.explorerTxUrl, txHash);
+
+  let receipt;
   try {
-    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+    receipt = await client.getTransactionReceipt({ hash: txHash });
+  } catch (error) {
+    // A timeout or rate limit says nothing about the transaction, least of all that it was reorganized away
+    if (!(error instanceof TransactionReceiptNotFoundError)) {
+      console.error('Error fetching Ethereum receipt:', error);
+      return {
+        state: 'pending',
+        confirmations: 0,
+        explorerUrl,
+        errorMessage: 'Could not fetch transaction status',
+        lookupFailed: true
+      };
+    }
 
-    if (receipt.status === 'success') {
-      const currentBlock = await publicClient.getBlockNumber();
-      const confirmations = Number(currentBlock - receipt.blockNumber);
+    // Not mined yet, or mined and then reorganized out of the canonical chain
+    return {
+      state: 'pending',
+      confirmations: 0,
+      explorerUrl,
+      eta: previous
+        ? `Block ${previous.blockNumber} was reorganized away; waiting for the transaction to be mined again`
+        : 'Waiting for transaction to be mined',
+      ...(previous && { reorg: previous })
+    };
+  }
 
-      let state: TransactionStatus['state'];
-      let eta: string | undefined;
+  try {
+    // The receipt's block must still be canonical at its height
+    const [included, latest, safe, finalized] = await Promise.all([
+      client.getBlock({ blockNumber: receipt.blockNumber }),
+      client.getBlock({ blockTag: 'latest' }),
+      client.getBlock({ blockTag: 'safe' }).catch(() => null),
+      client.getBlock({ blockTag: 'finalized' }).catch(() => null)
+    ]);
 
-      if (confirmations < 12) {
-        state = 'confirming';
-        eta = `${(12 - confirmations) * 12} seconds`;
-      } else {
-        state = 'attesting';
-        eta = '~15 minutes (attestation in progress)';
-      }
+    const inclusion: BlockInclusion = {
+      blockNumber: receipt.blockNumber.toString(),
+      blockHash: receipt.blockHash
+    };
+    const reorg = previous && previous.blockHash !== receipt.blockHash ? previous : undefined;
 
+    if (included.hash !== receipt.blockHash) {
       return {
-        state,
-        confirmations,
-        explorerUrl: `https://${isMainnet ? '' : 'sepolia.'}etherscan.io/tx/${txHash}`,
-        eta
+        state: 'pending',
+        confirmations: 0,
+        explorerUrl,
+        eta: `Block ${inclusion.blockNumber} is being reorganized; waiting for the transaction to settle`,
+        reorg: inclusion
       };
-    } else {
+    }
+
+    if (receipt.status !== 'success') {
       return {
         state: 'failed',
         confirmations: 0,
-        explorerUrl: `https://${isMainnet ? '' : 'sepolia.'}etherscan.io/tx/${txHash}`,
-        errorMessage: 'Transaction failed on Ethereum'
+        explorerUrl,
+        errorMessage: 'Transaction failed on Ethereum',
+        inclusion,
+        ...(reorg && { reorg })
       };
     }
+
+    const confirmations = Number(latest.number - receipt.blockNumber);
+    const finality = finalized && finalized.number >= receipt.blockNumber ? 'finalized'
+      : safe && safe.number >= receipt.blockNumber ? 'safe'
+      : 'unsafe';
+
+    // Time left in either state is estimated by the tracker from eta.ts
+    const state: TransactionStatus['state'] =
+      finality !== 'finalized' && confirmations < ethereum.requiredConfirmations ? 'confirming' : 'attesting';
+
+    return {
+      state,
+      confirmations,
+      explorerUrl,
+      inclusion,
+      finality,
+      ...(reorg && { reorg })
+    };
   } catch (error) {
-    // Transaction not found yet
+    console.error('Error checking Ethereum transaction:', error);
     return {
       state: 'pending',
       confirmations: 0,
-      explorerUrl: `https://sepolia.etherscan.io/tx/${txHash}`,
-      eta: 'Waiting for transaction to be mined'
+      explorerUrl,
+      errorMessage: 'Could not fetch transaction status',
+      lookupFailed: true
     };
   }
 }
 
+/**
+ * Whether `signature` is `address`'s signature of `message`, from a plain account or a smart
+ * account (ERC-1271). Throws when the RPC node cannot be reached.
+ */
+export async function verifyEthereumMessage(address: Address, message: string, signature: Hex): Promise<boolean> {
+  return getPublicClient().verifyMessage({ address, message, signature });
+}
+
+/**
+ * Decode an xReserve depositToRemote call and, once mined, the token transfer in its receipt.
+ * Returns null when the transaction is not a deposit to the configured xReserve contract.
+ */
+export async function getDepositDetails(txHash: Hex): Promise<DepositDetails | null> {
+  const { ethereum } = getNetworkProfile();
+  const client = getPublicClient();
+  const tx = await client.getTransaction({ hash: txHash });
+
+  if (!tx.to || tx.to.toLowerCase() !== ethereum.xreserveContract.toLowerCase()) {
+    return null;
+  }
+
+  let call;
+  try {
+    call = decodeFunctionData({ abi: XRESERVE_ABI, data: tx.input });
+  } catch {
+    return null;
+  }
+
+  const [amount, remoteDomain, remoteRecipient, localToken, maxFee, hookData] = call.args;
+  // The journal records the depositToRemote calldata, which a permit deposit extends
+  const depositInput = call.functionName === 'depositToRemote' ? tx.input : encodeFunctionData({
+    abi: XRESERVE_ABI,
+    functionName: 'depositToRemote',
+    args: [amount, remoteDomain, remoteRecipient, localToken, maxFee, hookData]
+  });
+
+  let stacksRecipient: string | null;
+  try {
+    stacksRecipient = remoteRecipientCoder.decode(hexToBytes(remoteRecipient));
+  } catch {
+    stacksRecipient = null;
+  }
+
+  const details: DepositDetails = {
+    sender: tx.from,
+    amount,
+    remoteDomain,
+    remoteRecipient,
+    stacksRecipient,
+    localToken,
+    maxFee,
+    hookData,
+    calldataHash: keccak256(depositInput)
+  };
+
+  if (tx.blockNumber === null) {
+    return details;
+  }
+
+  const [receipt, timestamp] = await Promise.all([
+    client.getTransactionReceipt({ hash: txHash }),
+    getBlockTimestamp(tx.blockNumber)
+  ]);
+  details.timestamp = timestamp;
+  details.gasFee = receipt.gasUsed * receipt.effectiveGasPrice;
+
+  if (receipt.status === 'success') {
+    const pulled = parseEventLogs({ abi: [TRANSFER_EVENT], logs: receipt.logs }).filter(log =>
+      log.address.toLowerCase() === localToken.toLowerCase() &&
+      log.args.from.toLowerCase() === tx.from.toLowerCase() &&
+      log.args.to.toLowerCase() === ethereum.xreserveContract.toLowerCase()
+    );
+    details.transferredAmount = pulled.reduce((sum, log) => sum + log.args.value, 0n);
+  }
+
+  return details;
+}
+
+/**
+ * Earliest block worth scanning for events at or after `since`, capped at `maxBlocks` back.
+ * Missed slots only make blocks sparser, so the estimate never starts after `since`.
+ */
+function startBlockFor(since: bigint, latest: { number: bigint; timestamp: bigint }, maxBlocks: bigint): bigint {
+  const blocksBack = latest.timestamp > since ? (latest.timestamp - since) / SECONDS_PER_BLOCK : 0n;
+  const capped = blocksBack > maxBlocks ? maxBlocks : blocksBack;
+  return latest.number > capped ? latest.number - capped : 0n;
+}
+
+/**
+ * USDC Transfer logs between two addresses, fetched in chunks the public RPCs accept
+ */
+async function* transferLogs(from: Address | undefined, to: Address, fromBlock: bigint, toBlock: bigint) {
+  const { ethereum } = getNetworkProfile();
+
+  while (fromBlock <= toBlock) {
+    const chunkEnd = fromBlock + LOG_CHUNK_BLOCKS - 1n < toBlock ? fromBlock + LOG_CHUNK_BLOCKS - 1n : toBlock;
+
+    yield await getPublicClient().getLogs({
+      address: ethereum.usdcContract,
+      event: TRANSFER_EVENT,
+      args: { from, to },
+      fromBlock,
+      toBlock: chunkEnd
+    });
+
+    fromBlock = chunkEnd + 1n;
+  }
+}
+
+/**
+ * Find the USDC release from xReserve to a recipient after a Stacks burn.
+ * Scans Transfer logs forward from the block closest to `since` and returns the first match
+ * later than `since`, skipping releases in `exclude` (lowercase hashes already matched to other burns).
+ */
+export async function findUSDCRelease(
+  recipient: Address,
+  minAmount: bigint,
+  maxAmount: bigint,
+  since: bigint,
+  exclude: ReadonlySet<string> = new Set()
+): Promise<USDCRelease | null> {
+  const { ethereum } = getNetworkProfile();
+
+  const latest = await getPublicClient().getBlock();
+  const fromBlock = startBlockFor(since, latest, MAX_RELEASE_SEARCH_BLOCKS);
+
+  for await (const logs of transferLogs(ethereum.xreserveContract, recipient, fromBlock, latest.number)) {
+    for (const log of logs) {
+      const amount = log.args.value;
+      if (amount === undefined || amount < minAmount || amount > maxAmount) continue;
+      if (exclude.has(log.transactionHash.toLowerCase())) continue;
+
+      const timestamp = await getBlockTimestamp(log.blockNumber);
+      if (timestamp > since) {
+        return { txHash: log.transactionHash, amount, blockNumber: log.blockNumber, timestamp };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Deposits made by an address between two unix timestamps, newest first.
+ * Found through the USDC each deposit pulls into xReserve; `searchedFrom` is where the scan
+ * actually started when the range exceeds the history window.
+ */
+export async function findDeposits(
+  sender: Address,
+  since: bigint,
+  until?: bigint
+): Promise<{ deposits: DepositLog[]; searchedFrom: bigint }> {
+  const { ethereum } = getNetworkProfile();
+
+  const latest = await getPublicClient().getBlock();
+  const fromBlock = startBlockFor(since, latest, MAX_HISTORY_SEARCH_BLOCKS);
+  const searchedFrom = latest.timestamp - (latest.number - fromBlock) * SECONDS_PER_BLOCK;
+  const deposits: DepositLog[] = [];
+
+  for await (const logs of transferLogs(sender, ethereum.xreserveContract, fromBlock, latest.number)) {
+    for (const log of logs) {
+      const timestamp = await getBlockTimestamp(log.blockNumber);
+      if (timestamp < since || (until !== undefined && timestamp > until)) continue;
+
+      deposits.push({ txHash: log.transactionHash, blockNumber: log.blockNumber, amount: log.args.value!, timestamp });
+    }
+  }
+
+  return { deposits: deposits.reverse(), searchedFrom: searchedFrom > since ? searchedFrom : since };
+}
+
 /**
  * Check if USDCx contracts are working (health check)
  */
 export async function checkContractHealth(): Promise<{ healthy: boolean; error?: string }> {
   try {
     // Try to read USDC total supply (should not fail if contract is working)
-    await publicClient.readContract({
-      address: USDC_CONTRACT,
+    await getPublicClient().readContract({
+      address: getNetworkProfile().ethereum.usdcContract,
       abi: ERC20_ABI,
       functionName: 'balanceOf',
       args: ['0x0000000000000000000000000000000000000000']
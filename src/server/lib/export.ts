@@ -0,0 +1,176 @@
+// Transfer history export for bookkeeping: a fixed-column CSV or JSON document
+import { resolvedTransfers, type ResolvedTransfer } from './history.js';
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+// Column order is part of the schema; add new columns at the end and bump the version.
+// There are no destination network fee columns: the mint or release on the destination chain is
+// submitted and paid for by the bridge operator, so the user's only costs are the source network
+// fee and the bridge fee (what xReserve keeps of the amount sent).
+export const EXPORT_COLUMNS = [
+  'schema_version',
+  'transfer_id',
+  'direction',
+  'state',
+  'source_chain',
+  'source_tx',
+  'source_timestamp',
+  'sender',
+  'recipient',
+  'amount_sent_base_units',
+  'amount_received_base_units',
+  'bridge_fee_base_units',
+  'source_network_fee_base_units',
+  'source_network_fee_asset',
+  'destination_chain',
+  'destination_tx',
+  'destination_timestamp'
+] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+export type ExportRow = Record<ExportColumn, string>;
+export type ExportFormat = 'csv' | 'json';
+
+// Each row costs several RPC calls, so one export is capped
+const MAX_EXPORT_ROWS = 1000;
+
+export interface ExportRequest {
+  addresses: string[];
+  since?: number; // unix seconds
+  until?: number; // unix seconds
+  format: ExportFormat;
+}
+
+export interface TransferExport {
+  format: ExportFormat;
+  contentType: string;
+  filename: string;
+  body: string;
+  rowCount: number;
+  truncated: boolean; // rows are missing: the row limit was hit, or history did not reach back to the start
+  rowLimitReached: boolean;
+  coveredFrom: string; // ISO time the on-chain scan reached back to for every address
+  coveredTo: string; // ISO time; the requested end, or when the export ran
+}
+
+function isoTime(seconds: number | undefined): string {
+  return seconds === undefined ? '' : new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Flatten a transfer into export columns. Every amount is an integer string in base units:
+ * USDC/USDCx have 6 decimals, the network fee is wei (ETH) or micro-STX.
+ */
+function toRow({ record, status }: ResolvedTransfer): ExportRow {
+  const destination = status?.destination;
+  const sent = record.amountBaseUnits;
+  const received = destination?.amountBaseUnits ?? '';
+  const networkFee = record.direction === 'deposit' ? status?.deposit?.gasFeeWei : status?.withdrawal?.feeMicroStx;
+
+  return {
+    schema_version: String(EXPORT_SCHEMA_VERSION),
+    transfer_id: record.transferId ?? '',
+    direction: record.direction,
+    state: record.state,
+    source_chain: record.sourceChain,
+    source_tx: record.sourceTxId ?? '',
+    source_timestamp: record.timestamp,
+    sender: record.sender,
+    recipient: record.recipient ?? '',
+    amount_sent_base_units: sent,
+    amount_received_base_units: received,
+    bridge_fee_base_units: received ? (BigInt(sent) - BigInt(received)).toString() : '',
+    source_network_fee_base_units: networkFee ?? '',
+    source_network_fee_asset: networkFee === undefined ? '' : record.direction === 'deposit' ? 'ETH' : 'STX',
+    destination_chain: destination?.chain ?? '',
+    destination_tx: destination?.txId ?? '',
+    destination_timestamp: isoTime(destination?.timestamp)
+  };
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(rows: ExportRow[]): string {
+  const lines = [EXPORT_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(EXPORT_COLUMNS.map(column => csvField(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Export every transfer touching the given addresses in a date range, oldest first
+ */
+export async function exportTransfers(request: ExportRequest): Promise<TransferExport> {
+  const rows = new Map<string, ExportRow>();
+  let rowLimitReached = false;
+  let since = request.since ?? 0;
+  let coveredFrom = 0;
+
+  for (const address of request.addresses) {
+    const history = await resolvedTransfers({ address, since: request.since, until: request.until });
+    since = history.since;
+    coveredFrom = Math.max(coveredFrom, history.searchedFrom);
+
+    for await (const transfer of history.transfers) {
+      // A transfer between two exported addresses appears in both histories
+      const key = transfer.record.sourceTxId?.toLowerCase() ?? transfer.record.id;
+      if (rows.has(key)) continue;
+
+      if (rows.size === MAX_EXPORT_ROWS) {
+        rowLimitReached = true;
+        break;
+      }
+      rows.set(key, toRow(transfer));
+    }
+    if (rowLimitReached) break;
+  }
+
+  // Older deposits are past the Ethereum log window, older burns past the Stacks page limit
+  const truncated = rowLimitReached || coveredFrom > since;
+  const coverage = {
+    coveredFrom: isoTime(coveredFrom),
+    coveredTo: isoTime(request.until ?? Math.floor(Date.now() / 1000))
+  };
+
+  const sorted = [...rows.values()].sort((a, b) => a.source_timestamp.localeCompare(b.source_timestamp));
+  const filename = `usdcx-transfers-${new Date().toISOString().slice(0, 10)}.${request.format}`;
+
+  if (request.format === 'csv') {
+    return {
+      format: 'csv',
+      contentType: 'text/csv; charset=utf-8',
+      filename,
+      body: toCsv(sorted),
+      rowCount: sorted.length,
+      truncated,
+      rowLimitReached,
+      ...coverage
+    };
+  }
+
+  const body = JSON.stringify({
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    addresses: request.addresses,
+    from: isoTime(request.since) || null,
+    to: isoTime(request.until) || null,
+    truncated,
+    ...coverage,
+    columns: EXPORT_COLUMNS,
+    transfers: sorted
+  }, null, 2);
+
+  return {
+    format: 'json',
+    contentType: 'application/json; charset=utf-8',
+    filename,
+    body,
+    rowCount: sorted.length,
+    truncated,
+    rowLimitReached,
+    ...coverage
+  };
+}
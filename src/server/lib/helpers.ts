@@ -66,21 +66,3 @@ export function isValidStacksAddress(address: string): boolean {
 export function isValidEthereumAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
-
-/**
- * Convert USDC amount to micro-USDC (6 decimals)
- */
-export function toMicroUSDC(amount: string): bigint {
-  const parsed = parseFloat(amount);
-  if (isNaN(parsed) || parsed <= 0) {
-    throw new Error('Invalid amount');
-  }
-  return BigInt(Math.floor(parsed * 1_000_000));
-}
-
-/**
- * Convert micro-USDC to readable amount
- */
-export function fromMicroUSDC(microAmount: bigint): string {
-  return (Number(microAmount) / 1_000_000).toFixed(6);
-}
\ No newline at end of file
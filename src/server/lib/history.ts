@@ -0,0 +1,296 @@
+// Transfer history for an address, rebuilt from on-chain deposits and burns plus the journal
+import { getAddress } from 'viem';
+import { findDeposits } from './ethereum.js';
+import { findBurns } from './stacks.js';
+import { trackTransfer, type BridgeChain, type TransferStatus } from './tracker.js';
+import { getJournalEntries, type JournalEntry, type JournalState, type TransferDirection } from './journal.js';
+import { isValidEthereumAddress } from './helpers.js';
+import { formatAmount } from '../../shared/amount.js';
+
+// Without a start date, history covers the last 30 days
+const DEFAULT_HISTORY_SECONDS = 30 * 24 * 60 * 60;
+// Transfers whose live status is looked up at once
+const RESOLVE_BATCH_SIZE = 4;
+
+export interface TransferQuery {
+  address: string;
+  direction?: TransferDirection;
+  state?: JournalState;
+  since?: number; // unix seconds
+  until?: number; // unix seconds
+  limit: number;
+  offset: number;
+}
+
+export type HistoryFilter = Omit<TransferQuery, 'limit' | 'offset'>;
+
+export interface TransferRecord {
+  id: string; // source transaction, or the journal id while a transfer is only prepared
+  direction: TransferDirection;
+  state: JournalState;
+  sourceChain: BridgeChain;
+  sourceTxId?: string;
+  sender: string;
+  recipient: string | null;
+  amount: string;
+  amountBaseUnits: string;
+  timestamp: string;
+  destinationTxId?: string;
+  transferId?: string;
+  errorMessage?: string;
+}
+
+export interface TransferPage {
+  transfers: TransferRecord[];
+  hasMore: boolean;
+  searchedFrom: string;
+}
+
+interface Candidate {
+  direction: TransferDirection;
+  sourceTxId?: string;
+  sender: string;
+  recipient: string | null;
+  amountBaseUnits: bigint;
+  timestamp: number;
+  journal?: JournalEntry;
+}
+
+function sourceChain(direction: TransferDirection): BridgeChain {
+  return direction === 'deposit' ? 'ethereum' : 'stacks';
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return isValidEthereumAddress(a) && isValidEthereumAddress(b) ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * Every transfer touching an address in the query window, newest first, without live status.
+ * `searchedFrom` is later than `since` when the on-chain scan could not reach back that far.
+ */
+async function findCandidates(query: HistoryFilter, since: number): Promise<{ candidates: Candidate[]; searchedFrom: number }> {
+  const { address, direction, until } = query;
+  const candidates: Candidate[] = [];
+  let searchedFrom = since;
+
+  if (isValidEthereumAddress(address) && direction !== 'withdrawal') {
+    const found = await findDeposits(getAddress(address), BigInt(since), until === undefined ? undefined : BigInt(until));
+    searchedFrom = Number(found.searchedFrom);
+    for (const deposit of found.deposits) {
+      candidates.push({
+        direction: 'deposit',
+        sourceTxId: deposit.txHash,
+        sender: getAddress(address),
+        recipient: null, // decoded when the status is resolved
+        amountBaseUnits: deposit.amount,
+        timestamp: Number(deposit.timestamp)
+      });
+    }
+  } else if (!isValidEthereumAddress(address) && direction !== 'deposit') {
+    const found = await findBurns(address, since, until);
+    searchedFrom = found.searchedFrom;
+    for (const { txId, burn, timestamp } of found.burns) {
+      candidates.push({
+        direction: 'withdrawal',
+        sourceTxId: txId,
+        sender: burn.sender,
+        recipient: burn.ethereumRecipient,
+        amountBaseUnits: burn.amount,
+        timestamp
+      });
+    }
+  }
+
+  // Journal entries add prepared-but-unsent transfers and transfers the address receives
+  for (const entry of getJournalEntries()) {
+    if (!sameAddress(entry.sender, address) && !sameAddress(entry.recipient, address)) continue;
+    if (direction && entry.direction !== direction) continue;
+
+    const sourceTxId = entry.sourceTxId?.toLowerCase();
+    const existing = sourceTxId && candidates.find(c => c.sourceTxId?.toLowerCase() === sourceTxId);
+    if (existing) {
+      existing.journal = entry;
+      continue;
+    }
+
+    const timestamp = Math.floor(Date.parse(entry.preparedAt) / 1000);
+    if (timestamp < since || (until !== undefined && timestamp > until)) continue;
+
+    candidates.push({
+      direction: entry.direction,
+      sourceTxId: entry.sourceTxId,
+      sender: entry.sender,
+      recipient: entry.recipient,
+      amountBaseUnits: BigInt(entry.amountBaseUnits),
+      timestamp,
+      journal: entry
+    });
+  }
+
+  candidates.sort((a, b) => b.timestamp - a.timestamp);
+  return { candidates, searchedFrom };
+}
+
+function toRecord(candidate: Candidate, status?: TransferStatus): TransferRecord {
+  const recipient = status?.deposit?.stacksRecipient ?? status?.withdrawal?.ethereumRecipient ??
+    candidate.recipient ?? candidate.journal?.recipient ?? null;
+  const amount = status?.deposit?.amountBaseUnits ?? status?.withdrawal?.amountBaseUnits ?? candidate.amountBaseUnits.toString();
+  const transferId = status?.transferId ?? candidate.journal?.id;
+  // Without a live status, the journal's last known one
+  const destinationTxId = status ? status.destination?.txId : candidate.journal?.destinationTxId;
+  const errorMessage = status ? status.errorMessage : candidate.journal?.errorMessage;
+
+  return {
+    id: candidate.sourceTxId ?? candidate.journal!.id,
+    direction: candidate.direction,
+    state: status?.state ?? candidate.journal?.state ?? 'prepared',
+    sourceChain: sourceChain(candidate.direction),
+    ...(candidate.sourceTxId && { sourceTxId: candidate.sourceTxId }),
+    sender: candidate.sender,
+    recipient,
+    amount: formatAmount(BigInt(amount)),
+    amountBaseUnits: amount,
+    timestamp: new Date(candidate.timestamp * 1000).toISOString(),
+    ...(destinationTxId && { destinationTxId }),
+    ...(transferId && { transferId }),
+    ...(errorMessage && { errorMessage })
+  };
+}
+
+export interface ResolvedTransfer {
+  record: TransferRecord;
+  status?: TransferStatus;
+}
+
+function isSettled(entry: JournalEntry | undefined): boolean {
+  return entry?.state === 'completed' || entry?.state === 'failed';
+}
+
+/**
+ * Resolve a candidate's live status without writing the journal. Transfers the journal already
+ * has as completed or failed are not looked up unless `withStatus` asks for their full status.
+ * Returns null for Ethereum transfers into xReserve that turn out not to be depositToRemote calls.
+ */
+async function resolve(candidate: Candidate, withStatus: boolean): Promise<ResolvedTransfer | null> {
+  if (!candidate.sourceTxId || (!withStatus && isSettled(candidate.journal))) {
+    return { record: toRecord(candidate) };
+  }
+
+  try {
+    const status = await trackTransfer(candidate.sourceTxId, sourceChain(candidate.direction), { record: false });
+    if (candidate.direction === 'deposit' && !status.deposit && !candidate.journal) {
+      return null;
+    }
+    return { record: toRecord(candidate, status), status };
+  } catch (error) {
+    return {
+      record: {
+        ...toRecord(candidate),
+        errorMessage: `Could not fetch status: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    };
+  }
+}
+
+/**
+ * Candidates matching `state` in order, resolved RESOLVE_BATCH_SIZE at a time as they are consumed
+ */
+async function* resolveMatching(
+  candidates: Candidate[],
+  state: JournalState | undefined,
+  withStatus: boolean
+): AsyncGenerator<ResolvedTransfer> {
+  for (let start = 0; start < candidates.length; start += RESOLVE_BATCH_SIZE) {
+    const batch = candidates.slice(start, start + RESOLVE_BATCH_SIZE);
+    for (const resolved of await Promise.all(batch.map(candidate => resolve(candidate, withStatus)))) {
+      if (resolved && (!state || resolved.record.state === state)) {
+        yield resolved;
+      }
+    }
+  }
+}
+
+export interface ResolvedHistory {
+  transfers: AsyncGenerator<ResolvedTransfer>;
+  since: number; // unix seconds; the requested start, or the default window's
+  searchedFrom: number; // unix seconds; later than `since` when on-chain history did not reach back that far
+}
+
+/**
+ * Transfers matching a filter, newest first, with their full live status, resolved as they are consumed
+ */
+export async function resolvedTransfers(filter: HistoryFilter): Promise<ResolvedHistory> {
+  const since = filter.since ?? Math.floor(Date.now() / 1000) - DEFAULT_HISTORY_SECONDS;
+  const { candidates, searchedFrom } = await findCandidates(filter, since);
+  return { transfers: resolveMatching(candidates, filter.state, true), since, searchedFrom };
+}
+
+/**
+ * One page of an address's bridge history. Live status is only fetched for the unsettled
+ * transfers needed to fill the page.
+ */
+export async function listTransfers(query: TransferQuery): Promise<TransferPage> {
+  const since = query.since ?? Math.floor(Date.now() / 1000) - DEFAULT_HISTORY_SECONDS;
+  const { candidates, searchedFrom } = await findCandidates(query, since);
+  const transfers: TransferRecord[] = [];
+  let matched = 0;
+  let hasMore = false;
+
+  for await (const { record } of resolveMatching(candidates, query.state, false)) {
+    if (matched++ < query.offset) continue;
+    if (transfers.length === query.limit) {
+      hasMore = true;
+      break;
+    }
+    transfers.push(record);
+  }
+
+  return { transfers, hasMore, searchedFrom: new Date(searchedFrom * 1000).toISOString() };
+}
+
+/**
+ * A single transfer by journal id or source transaction, with its full live status
+ */
+export async function getTransfer(id: string, chain?: BridgeChain): Promise<{ record: TransferRecord; status?: TransferStatus }> {
+  const normalized = id.toLowerCase();
+  const entry = getJournalEntries().find(e => e.id === id || e.sourceTxId?.toLowerCase() === normalized);
+
+  const sourceTxId = entry ? entry.sourceTxId : id;
+  if (!sourceTxId) {
+    // Prepared but never seen on chain
+    return { record: toRecord(journalCandidate(entry!)) };
+  }
+
+  const txChain = entry ? sourceChain(entry.direction) : chain;
+  if (!txChain) {
+    throw new Error(`${id} is not a transfer prepared by this server; pass the chain it was sent on`);
+  }
+
+  const status = await trackTransfer(sourceTxId, txChain, { record: false });
+  if (txChain === 'ethereum' && !status.deposit) {
+    throw new Error(`${id} is not an xReserve depositToRemote transaction`);
+  }
+
+  const candidate: Candidate = entry ? journalCandidate(entry) : {
+    direction: txChain === 'ethereum' ? 'deposit' : 'withdrawal',
+    sourceTxId,
+    sender: status.deposit?.sender ?? status.withdrawal?.sender ?? '',
+    recipient: null,
+    amountBaseUnits: BigInt(status.deposit?.amountBaseUnits ?? status.withdrawal?.amountBaseUnits ?? '0'),
+    timestamp: status.deposit?.timestamp ?? status.withdrawal?.timestamp ?? Math.floor(Date.now() / 1000)
+  };
+
+  return { record: toRecord(candidate, status), status };
+}
+
+function journalCandidate(entry: JournalEntry): Candidate {
+  return {
+    direction: entry.direction,
+    sourceTxId: entry.sourceTxId,
+    sender: entry.sender,
+    recipient: entry.recipient,
+    amountBaseUnits: BigInt(entry.amountBaseUnits),
+    timestamp: Math.floor(Date.parse(entry.preparedAt) / 1000),
+    journal: entry
+  };
+}
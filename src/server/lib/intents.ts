@@ -0,0 +1,97 @@
+// Bridge intents: prepared transfers and allowance changes held server-side so widget links carry only an opaque ID
+import { randomBytes } from 'crypto';
+import { isAddress, isHex } from 'viem';
+import { verifyEthereumMessage, type DepositTransactionData } from './ethereum.js';
+import { verifyStacksMessage, type WithdrawalTransactionData } from './stacks.js';
+import type { AllowanceChange } from './allowance.js';
+import { getNetworkProfile, toNetworkSummary } from './network.js';
+import type { TransferDirection } from './journal.js';
+import type { NetworkSummary } from '../../shared/network.js';
+import { intentClaimMessage, type IntentClaim } from '../../shared/intent.js';
+
+// Matches the permit deadline, so a deposit intent never outlives its permit
+const INTENT_TTL_MS = 30 * 60_000;
+// Random bytes per ID (22 base64url characters)
+const INTENT_ID_BYTES = 16;
+
+// 'allowance' is a manageAllowance revoke or change: sender is the owner, recipient the spender (xReserve)
+export type IntentDirection = TransferDirection | 'allowance';
+
+/**
+ * A prepared transfer or allowance change as the widget loads it. Only `sender` may sign it.
+ */
+export interface BridgeIntent {
+  id: string;
+  direction: IntentDirection;
+  sender: string;
+  recipient: string;
+  amount: string; // formatted; "unlimited" for an unlimited approval
+  amountBaseUnits: string;
+  eta?: string; // transfers only
+  network: NetworkSummary; // contracts and chains the transaction was prepared for
+  transactionData: DepositTransactionData | WithdrawalTransactionData | AllowanceChange;
+  transferId?: string; // journal entry; allowance changes have none
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * What anyone holding the link may see: enough to show the transfer and ask the sender to claim it
+ */
+export type PublicBridgeIntent = Omit<BridgeIntent, 'transactionData' | 'transferId'>;
+
+// Intents only need to outlive the chat turn that links to them, so they are not persisted
+const intents = new Map<string, BridgeIntent>();
+
+function isExpired(intent: BridgeIntent, now = Date.now()): boolean {
+  return Date.parse(intent.expiresAt) <= now;
+}
+
+/**
+ * Store a prepared transfer on the active network under a new unguessable ID, dropping any expired intents
+ */
+export function createIntent(intent: Omit<BridgeIntent, 'id' | 'network' | 'createdAt' | 'expiresAt'>): BridgeIntent {
+  const now = Date.now();
+  for (const [id, stored] of intents) {
+    if (isExpired(stored, now)) intents.delete(id);
+  }
+
+  const created: BridgeIntent = {
+    ...intent,
+    id: randomBytes(INTENT_ID_BYTES).toString('base64url'),
+    network: toNetworkSummary(getNetworkProfile()),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + INTENT_TTL_MS).toISOString()
+  };
+  intents.set(created.id, created);
+  return created;
+}
+
+/**
+ * An unexpired intent, or undefined
+ */
+export function getIntent(id: string): BridgeIntent | undefined {
+  const intent = intents.get(id);
+  if (intent && isExpired(intent)) {
+    intents.delete(id);
+    return undefined;
+  }
+  return intent;
+}
+
+export function toPublicIntent({ transactionData, transferId, ...intent }: BridgeIntent): PublicBridgeIntent {
+  return intent;
+}
+
+/**
+ * Whether a claim is signed by the intent's sender: an Ethereum signature (EOA or smart account)
+ * of intentClaimMessage, or a Stacks message signature whose public key hashes to the sender
+ */
+export async function isSenderClaim(intent: BridgeIntent, { signature, publicKey }: IntentClaim): Promise<boolean> {
+  const message = intentClaimMessage(intent.id, intent.sender);
+
+  if (isAddress(intent.sender)) {
+    return isHex(signature) && verifyEthereumMessage(intent.sender, message, signature);
+  }
+  return publicKey !== undefined && verifyStacksMessage(intent.sender, message, signature, publicKey);
+}
@@ -0,0 +1,259 @@
+// Transfer journal: every prepared bridge transfer and its lifecycle, persisted to a JSON file
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { type Hex } from 'viem';
+import { getConfig } from './config.js';
+import type { BlockInclusion } from './ethereum.js';
+import type { TransferStatus } from './tracker.js';
+
+export type TransferDirection = 'deposit' | 'withdrawal';
+export type JournalState = 'prepared' | TransferStatus['state'];
+
+export interface JournalEntry {
+  id: string;
+  direction: TransferDirection;
+  amountBaseUnits: string;
+  sender: string; // address that signs the source transaction
+  recipient: string;
+  calldataHash: Hex;
+  preparedAt: string;
+  updatedAt: string;
+  state: JournalState;
+  sourceTxId?: string;
+  confirmations?: number;
+  destinationTxId?: string;
+  errorMessage?: string;
+  inclusion?: BlockInclusion; // block the deposit was last seen in, to detect reorgs between checks
+  // Stage timings, kept for transfer time estimates
+  sourceIncludedAt?: string; // source block time
+  confirmedAt?: string; // first time the source was seen final (attesting)
+  deliveredAt?: string; // destination block time
+}
+
+const DEFAULT_JOURNAL_PATH = 'data/transfers.json';
+// Transfers prepared but never sent are dropped after a week
+const PREPARED_RETENTION_MS = 7 * 24 * 60 * 60_000;
+// Writers in other processes hold the lock for one read-merge-write; older locks were left by a crash
+const LOCK_STALE_MS = 30_000;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_RETRY_MS = 50;
+
+let entries: JournalEntry[] | undefined;
+let loadedMtimeMs: number | undefined; // journal file version last merged into `entries`
+let writes: Promise<void> = Promise.resolve();
+
+function journalPath(): string {
+  return path.resolve(getConfig().settings.BRIDGE_JOURNAL_PATH ?? DEFAULT_JOURNAL_PATH);
+}
+
+function fileMtimeMs(file: string): number | undefined {
+  try {
+    return fs.statSync(file).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
+
+function readJournal(file: string): JournalEntry[] {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')).transfers ?? [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading transfer journal:', error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Merge entries written by another process into `entries`, keeping the later update of each.
+ * Entries are updated in place, since callers may hold them.
+ */
+function merge(stored: JournalEntry[]): void {
+  const journal = entries!;
+  const byId = new Map(journal.map(entry => [entry.id, entry]));
+
+  for (const entry of stored) {
+    const current = byId.get(entry.id);
+    if (!current) {
+      journal.push(entry);
+    } else if (Date.parse(entry.updatedAt) > Date.parse(current.updatedAt)) {
+      for (const key of Object.keys(current) as (keyof JournalEntry)[]) {
+        delete current[key];
+      }
+      Object.assign(current, entry);
+    }
+  }
+
+  journal.sort((a, b) => Date.parse(a.preparedAt) - Date.parse(b.preparedAt));
+}
+
+/**
+ * Drop transfers that were prepared but never sent within PREPARED_RETENTION_MS
+ */
+function prune(): void {
+  const cutoff = Date.now() - PREPARED_RETENTION_MS;
+  entries = entries!.filter(entry =>
+    entry.sourceTxId || entry.state !== 'prepared' || Date.parse(entry.preparedAt) >= cutoff
+  );
+}
+
+/**
+ * The journal, re-read whenever another process (such as an /mcp-json child) has written it
+ */
+function load(): JournalEntry[] {
+  const file = journalPath();
+  const mtimeMs = fileMtimeMs(file);
+
+  if (!entries || mtimeMs !== loadedMtimeMs) {
+    const stored = readJournal(file);
+    loadedMtimeMs = mtimeMs;
+    if (entries) {
+      merge(stored);
+    } else {
+      entries = stored;
+    }
+    prune();
+  }
+  return entries!;
+}
+
+/**
+ * Run `write` holding the journal's lock file, so writers in other processes take turns
+ */
+async function withLock(file: string, write: () => Promise<void>): Promise<void> {
+  const lock = `${file}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await (await fs.promises.open(lock, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const held = await fs.promises.stat(lock).catch(() => null);
+    if (held && Date.now() - held.mtimeMs > LOCK_STALE_MS) {
+      await fs.promises.unlink(lock).catch(() => undefined);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the transfer journal lock ${lock}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    await write();
+  } finally {
+    await fs.promises.unlink(lock).catch(() => undefined);
+  }
+}
+
+/**
+ * Queue a write of the whole journal. Under the lock, entries another process wrote since the
+ * last read are merged in first. Writes go to a temp file and are renamed into place,
+ * so a crash never leaves a truncated journal.
+ */
+function save(): void {
+  const file = journalPath();
+
+  writes = writes
+    .then(async () => {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await withLock(file, async () => {
+        merge(readJournal(file));
+        prune();
+
+        await fs.promises.writeFile(`${file}.tmp`, JSON.stringify({ version: 1, transfers: entries }, null, 2));
+        await fs.promises.rename(`${file}.tmp`, file);
+        loadedMtimeMs = fileMtimeMs(file);
+      });
+    })
+    .catch(error => console.error('Error writing transfer journal:', error));
+}
+
+function sameSender(a: string, b: string): boolean {
+  // Ethereum addresses may differ in checksum casing; Stacks addresses are case-sensitive
+  return a.startsWith('0x') ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * Record a transfer the server just prepared calldata for
+ */
+export function recordPreparedTransfer(
+  transfer: Pick<JournalEntry, 'direction' | 'amountBaseUnits' | 'sender' | 'recipient' | 'calldataHash'>
+): JournalEntry {
+  const now = new Date().toISOString();
+  const entry: JournalEntry = {
+    id: randomUUID(),
+    ...transfer,
+    preparedAt: now,
+    updatedAt: now,
+    state: 'prepared'
+  };
+
+  load().push(entry);
+  save();
+  return entry;
+}
+
+function isSettled(state: JournalState): boolean {
+  return state === 'completed' || state === 'failed';
+}
+
+/**
+ * Attach a source transaction to its prepared transfer and record its latest status.
+ * A transaction is matched by id first, then to the newest unsubmitted entry with the same calldata
+ * and sender. Statuses that could not be fetched are not recorded, a settled entry keeps its state,
+ * and a destination once found is never cleared: a later lookup that misses it proves nothing.
+ */
+export function recordTransferStatus(calldataHash: Hex, txId: string, status: TransferStatus): JournalEntry | undefined {
+  const journal = load();
+  const sender = status.deposit?.sender ?? status.withdrawal?.sender;
+  const entry = journal.find(e => e.sourceTxId?.toLowerCase() === txId.toLowerCase()) ??
+    (sender === undefined ? undefined : [...journal].reverse().find(e =>
+      !e.sourceTxId && e.calldataHash === calldataHash && sameSender(e.sender, sender)
+    ));
+
+  if (!entry || status.lookupFailed) {
+    return entry;
+  }
+
+  const now = new Date().toISOString();
+  const included = status.deposit?.timestamp ?? status.withdrawal?.timestamp;
+
+  entry.sourceTxId = txId;
+  if (!isSettled(entry.state)) {
+    entry.state = status.state;
+    entry.errorMessage = status.errorMessage;
+  }
+  entry.confirmations = status.confirmations;
+  entry.destinationTxId = status.destination?.txId ?? entry.destinationTxId;
+  // A failed lookup keeps the last known block; a reorg keeps the block that was reorganized away
+  if (status.inclusion || status.reorg) {
+    entry.inclusion = status.inclusion ?? status.reorg;
+  }
+  entry.updatedAt = now;
+  entry.sourceIncludedAt = included === undefined ? undefined : new Date(included * 1000).toISOString();
+  if (status.state === 'attesting') {
+    entry.confirmedAt ??= now;
+  }
+  if (status.destination) {
+    entry.deliveredAt = new Date(status.destination.timestamp * 1000).toISOString();
+  }
+
+  save();
+  return entry;
+}
+
+/**
+ * All journal entries, oldest first
+ */
+export function getJournalEntries(): readonly JournalEntry[] {
+  return load();
+}
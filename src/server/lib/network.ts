@@ -0,0 +1,253 @@
+// Network profiles: every chain-specific constant for one bridge deployment
+import { getAddress, isAddress, type Address, type Chain } from 'viem';
+import { mainnet, sepolia, foundry } from 'viem/chains';
+import { createAddress } from '@stacks/transactions';
+import {
+  STACKS_MAINNET,
+  STACKS_TESTNET,
+  STACKS_DEVNET,
+  createNetwork,
+  type StacksNetwork
+} from '@stacks/network';
+import { getConfig, ConfigError, type BridgeSettings } from './config.js';
+import type { NetworkName, NetworkSummary } from '../../shared/network.js';
+import { parseAmount, formatAmount } from '../../shared/amount.js';
+
+export type { NetworkName } from '../../shared/network.js';
+
+export interface NetworkProfile {
+  name: NetworkName;
+  ethereum: {
+    chain: Chain;
+    chainName: string;
+    rpcUrl: string;
+    xreserveContract: Address;
+    usdcContract: Address;
+    domain: number;
+    explorerTxUrl: string;
+    requiredConfirmations: number;
+    depositMaxFee: bigint; // maxFee passed to depositToRemote, in USDC base units
+  };
+  stacks: {
+    network: StacksNetwork;
+    chainName: string;
+    apiUrl: string;
+    usdcxContract: string;
+    usdcxTokenContract: string;
+    usdcxTokenName: string;
+    domain: number;
+    explorerTxUrl: string;
+    requiredConfirmations: number;
+  };
+  limits: {
+    minDeposit: bigint;
+    minWithdrawal: bigint;
+  };
+}
+
+interface ProfileDefaults {
+  chain: Chain;
+  chainName: string;
+  rpcUrl: string;
+  xreserveContract?: string;
+  usdcContract?: string;
+  ethereumExplorerTxUrl: string;
+  stacksNetwork: StacksNetwork;
+  stacksChainName: string;
+  stacksApiUrl: string;
+  usdcxContract?: string;
+  usdcxTokenContract?: string;
+  stacksExplorerTxUrl: string;
+}
+
+// Contracts without a published default must be supplied through the environment,
+// so a mainnet deployment never falls back to testnet contracts
+const PROFILE_DEFAULTS: Record<NetworkName, ProfileDefaults> = {
+  mainnet: {
+    chain: mainnet,
+    chainName: 'Ethereum Mainnet',
+    rpcUrl: 'https://ethereum.publicnode.com',
+    xreserveContract: '0x8888888199b2Df864bf678259607d6D5EBb4e3Ce',
+    usdcContract: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    ethereumExplorerTxUrl: 'https://etherscan.io/tx/{txId}',
+    stacksNetwork: STACKS_MAINNET,
+    stacksChainName: 'Stacks Mainnet',
+    stacksApiUrl: 'https://api.stacks.co',
+    stacksExplorerTxUrl: 'https://explorer.hiro.so/txid/{txId}?chain=mainnet'
+  },
+  testnet: {
+    chain: sepolia,
+    chainName: 'Ethereum Sepolia',
+    rpcUrl: 'https://ethereum-sepolia.publicnode.com',
+    xreserveContract: '0x008888878f94C0d87defdf0B07f46B93C1934442',
+    usdcContract: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+    ethereumExplorerTxUrl: 'https://sepolia.etherscan.io/tx/{txId}',
+    stacksNetwork: STACKS_TESTNET,
+    stacksChainName: 'Stacks Testnet',
+    stacksApiUrl: 'https://api.testnet.stacks.co',
+    usdcxContract: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx-v1',
+    usdcxTokenContract: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx',
+    stacksExplorerTxUrl: 'https://explorer.hiro.so/txid/{txId}?chain=testnet'
+  },
+  devnet: {
+    chain: foundry,
+    chainName: 'Ethereum Devnet',
+    rpcUrl: 'http://localhost:8545',
+    ethereumExplorerTxUrl: 'http://localhost:5100/tx/{txId}',
+    stacksNetwork: STACKS_DEVNET,
+    stacksChainName: 'Stacks Devnet',
+    stacksApiUrl: 'http://localhost:3999',
+    usdcxContract: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx-v1',
+    usdcxTokenContract: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx',
+    stacksExplorerTxUrl: 'https://explorer.hiro.so/txid/{txId}?chain=testnet&api=http://localhost:3999'
+  }
+};
+
+const NETWORK_NAMES = Object.keys(PROFILE_DEFAULTS) as NetworkName[];
+
+function ethereumAddress(
+  label: string,
+  value: string | undefined,
+  name: NetworkName,
+  defaultKey: 'xreserveContract' | 'usdcContract',
+  problems: string[]
+): Address {
+  if (!value) {
+    problems.push(`${label} is required on ${name}`);
+  } else if (!isAddress(value, { strict: false })) {
+    problems.push(`${label} is not a valid Ethereum address: ${value}`);
+  } else {
+    // Catch another network's well-known contract being configured by mistake
+    const owner = NETWORK_NAMES.find(other =>
+      other !== name && PROFILE_DEFAULTS[other][defaultKey]?.toLowerCase() === value.toLowerCase()
+    );
+    if (owner) {
+      problems.push(`${label} is the ${owner} contract but the network is ${name}: ${value}`);
+    }
+    return getAddress(value);
+  }
+  return '0x0000000000000000000000000000000000000000';
+}
+
+function contractId(label: string, value: string | undefined, name: NetworkName, problems: string[]): string {
+  if (!value) {
+    problems.push(`${label} is required on ${name}`);
+    return '';
+  }
+
+  const [principal, contractName] = value.split('.');
+  if (!principal || !contractName || !/^[a-zA-Z][a-zA-Z0-9-]*$/.test(contractName)) {
+    problems.push(`${label} must look like <address>.<contract-name>: ${value}`);
+    return value;
+  }
+
+  try {
+    const { version } = createAddress(principal);
+    const { singleSig, multiSig } = PROFILE_DEFAULTS[name].stacksNetwork.addressVersion;
+    if (version !== singleSig && version !== multiSig) {
+      problems.push(`${label} belongs to a different Stacks network than ${name}: ${value}`);
+    }
+  } catch {
+    problems.push(`${label} has an invalid Stacks address: ${value}`);
+  }
+
+  return value;
+}
+
+function url(label: string, value: string, problems: string[]): string {
+  try {
+    new URL(value);
+  } catch {
+    problems.push(`${label} is not a valid URL: ${value}`);
+  }
+  return value.replace(/\/+$/, '');
+}
+
+/**
+ * Build and validate the network profile from parsed settings
+ */
+export function buildNetworkProfile(settings: BridgeSettings): NetworkProfile {
+  const problems: string[] = [];
+  const name = settings.BRIDGE_NETWORK ?? settings.STACKS_NETWORK ?? settings.ETHEREUM_NETWORK ?? 'testnet';
+  const defaults = PROFILE_DEFAULTS[name];
+
+  const stacksApiUrl = url('STACKS_API_URL', settings.STACKS_API_URL || defaults.stacksApiUrl, problems);
+
+  const profile: NetworkProfile = {
+    name,
+    ethereum: {
+      chain: defaults.chain,
+      chainName: defaults.chainName,
+      rpcUrl: url('ETHEREUM_RPC_URL', settings.ETHEREUM_RPC_URL || defaults.rpcUrl, problems),
+      xreserveContract: ethereumAddress('XRESERVE_CONTRACT', settings.XRESERVE_CONTRACT || defaults.xreserveContract, name, 'xreserveContract', problems),
+      usdcContract: ethereumAddress('USDC_CONTRACT', settings.USDC_CONTRACT || defaults.usdcContract, name, 'usdcContract', problems),
+      domain: settings.ETHEREUM_DOMAIN ?? 0,
+      explorerTxUrl: defaults.ethereumExplorerTxUrl,
+      requiredConfirmations: 12,
+      depositMaxFee: parseAmount(settings.XRESERVE_MAX_FEE ?? '0')
+    },
+    stacks: {
+      network: createNetwork({ network: defaults.stacksNetwork, client: { baseUrl: stacksApiUrl } }),
+      chainName: defaults.stacksChainName,
+      apiUrl: stacksApiUrl,
+      usdcxContract: contractId('STACKS_USDCX_CONTRACT', settings.STACKS_USDCX_CONTRACT || defaults.usdcxContract, name, problems),
+      usdcxTokenContract: contractId('STACKS_USDCX_TOKEN_CONTRACT', settings.STACKS_USDCX_TOKEN_CONTRACT || defaults.usdcxTokenContract, name, problems),
+      usdcxTokenName: 'usdcx-token',
+      domain: settings.STACKS_DOMAIN ?? 10003,
+      explorerTxUrl: defaults.stacksExplorerTxUrl,
+      requiredConfirmations: 6
+    },
+    limits: {
+      minDeposit: 1_000_000n, // 1 USDC
+      minWithdrawal: 4_800_000n // 4.80 USDCx
+    }
+  };
+
+  if (profile.ethereum.domain === profile.stacks.domain) {
+    problems.push(`ETHEREUM_DOMAIN and STACKS_DOMAIN must differ (both are ${profile.ethereum.domain})`);
+  }
+
+  if (profile.ethereum.depositMaxFee >= profile.limits.minDeposit) {
+    problems.push(`XRESERVE_MAX_FEE must be below the minimum deposit of ${formatAmount(profile.limits.minDeposit)} USDC`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return profile;
+}
+
+let activeProfile: NetworkProfile | undefined;
+
+/**
+ * The network profile for this process, loaded on first use
+ */
+export function getNetworkProfile(): NetworkProfile {
+  activeProfile ??= buildNetworkProfile(getConfig().settings);
+  return activeProfile;
+}
+
+/**
+ * Public, widget-safe view of a profile (no RPC URLs, which may embed API keys)
+ */
+export function toNetworkSummary(profile: NetworkProfile): NetworkSummary {
+  return {
+    name: profile.name,
+    ethereum: {
+      chainId: profile.ethereum.chain.id,
+      chainName: profile.ethereum.chainName,
+      xreserveContract: profile.ethereum.xreserveContract,
+      usdcContract: profile.ethereum.usdcContract,
+      domain: profile.ethereum.domain,
+      explorerTxUrl: profile.ethereum.explorerTxUrl
+    },
+    stacks: {
+      network: profile.name,
+      chainName: profile.stacks.chainName,
+      usdcxContract: profile.stacks.usdcxContract,
+      domain: profile.stacks.domain,
+      explorerTxUrl: profile.stacks.explorerTxUrl
+    }
+  };
+}
@@ -0,0 +1,182 @@
+// Pre-flight checks: balances, fees and (for deposits) a dry run of the source transaction before it reaches a wallet
+import { formatEther, type Address } from 'viem';
+import { getEthereumBalances, simulateDeposit, type DepositFeeEstimate } from './ethereum.js';
+import { getStacksBalances, isBurnPaused, type BurnFeeEstimate } from './stacks.js';
+import { formatAmount } from '../../shared/amount.js';
+
+export type PreflightCause =
+  | 'insufficient_balance'
+  | 'insufficient_gas'
+  | 'low_gas' // covers the expected fee but not the maximum
+  | 'insufficient_allowance'
+  | 'contract_paused'
+  | 'blacklisted'
+  | 'simulation_reverted'
+  | 'check_unavailable';
+
+export interface PreflightIssue {
+  severity: 'error' | 'warning';
+  cause: PreflightCause;
+  message: string;
+}
+
+/**
+ * JSON-safe outcome of the checks. Balances are base units (wei, micro-STX, token base units).
+ */
+export interface PreflightReport {
+  ok: boolean; // false when any issue is an error
+  issues: PreflightIssue[];
+  balances?: Record<string, string>;
+  // not_supported: withdrawals, since Stacks nodes only evaluate read-only functions and burn is public
+  simulation: 'passed' | 'reverted' | 'skipped' | 'unavailable' | 'not_supported';
+}
+
+/**
+ * Raised by the prepare tools when a transfer would certainly fail
+ */
+export class PreflightError extends Error {
+  constructor(public readonly report: PreflightReport) {
+    super(`Pre-flight checks failed: ${report.issues.filter(i => i.severity === 'error').map(i => i.message).join('; ')}`);
+    this.name = 'PreflightError';
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? (error as { shortMessage?: string }).shortMessage ?? error.message : 'Unknown error';
+}
+
+/**
+ * Map a revert reason or error name to the cause the user can act on
+ */
+function classifyRevert(reason: string): PreflightCause {
+  if (/paused|EnforcedPause/i.test(reason)) return 'contract_paused';
+  if (/exceeds balance|InsufficientBalance/i.test(reason)) return 'insufficient_balance';
+  if (/allowance/i.test(reason)) return 'insufficient_allowance';
+  if (/blacklist/i.test(reason)) return 'blacklisted';
+  return 'simulation_reverted';
+}
+
+function report(issues: PreflightIssue[], simulation: PreflightReport['simulation'], balances?: Record<string, string>): PreflightReport {
+  return { ok: !issues.some(issue => issue.severity === 'error'), issues, ...(balances && { balances }), simulation };
+}
+
+/**
+ * Check a deposit: USDC and ETH balances against the amount and fee estimate, then simulate
+ * depositToRemote (past a pending approval, via an allowance override)
+ */
+export async function preflightDeposit(
+  value: bigint,
+  stacksRecipient: string,
+  userAddress: Address,
+  fees: DepositFeeEstimate
+): Promise<PreflightReport> {
+  const issues: PreflightIssue[] = [];
+
+  let balances;
+  try {
+    balances = await getEthereumBalances(userAddress);
+  } catch (error) {
+    issues.push({ severity: 'warning', cause: 'check_unavailable', message: `Could not read balances: ${errorMessage(error)}` });
+  }
+
+  if (balances && balances.usdc < value) {
+    issues.push({
+      severity: 'error',
+      cause: 'insufficient_balance',
+      message: `${userAddress} holds ${formatAmount(balances.usdc)} USDC but the deposit needs ${formatAmount(value)} USDC`
+    });
+  }
+  if (balances && balances.eth < fees.expectedFee) {
+    issues.push({
+      severity: 'error',
+      cause: 'insufficient_gas',
+      message: `${userAddress} holds ${formatEther(balances.eth)} ETH but ${fees.approvalGas > 0n ? 'approve and deposit need' : 'the deposit needs'} about ${formatEther(fees.expectedFee)} ETH in gas`
+    });
+  } else if (balances && balances.eth < fees.maxNetworkFee) {
+    issues.push({
+      severity: 'warning',
+      cause: 'low_gas',
+      message: `${formatEther(balances.eth)} ETH covers the expected gas but not the ${formatEther(fees.maxNetworkFee)} ETH maximum if fees rise`
+    });
+  }
+
+  const summary = balances && {
+    eth: balances.eth.toString(),
+    usdc: balances.usdc.toString(),
+    allowance: balances.allowance.toString()
+  };
+
+  // The simulation would only repeat a known shortfall
+  if (balances && balances.usdc < value) {
+    return report(issues, 'skipped', summary);
+  }
+
+  try {
+    const simulation = await simulateDeposit(value, stacksRecipient, userAddress, fees.requiresApproval);
+    if (!simulation.reverted) {
+      return report(issues, 'passed', summary);
+    }
+
+    const cause = classifyRevert(simulation.reason);
+    issues.push(cause === 'insufficient_allowance' && fees.requiresApproval
+      // The allowance override did not take, so the approval itself is what is missing
+      ? { severity: 'warning', cause, message: `The deposit could not be simulated past the pending approval (${simulation.reason})` }
+      : { severity: 'error', cause, message: `The deposit would revert: ${simulation.reason}` });
+    return report(issues, 'reverted', summary);
+  } catch (error) {
+    issues.push({ severity: 'warning', cause: 'check_unavailable', message: `Could not simulate the deposit: ${errorMessage(error)}` });
+    return report(issues, 'unavailable', summary);
+  }
+}
+
+/**
+ * Check a withdrawal: USDCx and STX balances against the amount and fee estimate, and the
+ * contract's paused flag. The burn itself is not simulated (see PreflightReport.simulation).
+ */
+export async function preflightWithdrawal(
+  microAmount: bigint,
+  stacksAddress: string,
+  fees: BurnFeeEstimate
+): Promise<PreflightReport> {
+  const issues: PreflightIssue[] = [];
+
+  let balances;
+  try {
+    balances = await getStacksBalances(stacksAddress);
+  } catch (error) {
+    issues.push({ severity: 'warning', cause: 'check_unavailable', message: `Could not read balances: ${errorMessage(error)}` });
+  }
+
+  if (balances && balances.usdcx < microAmount) {
+    issues.push({
+      severity: 'error',
+      cause: 'insufficient_balance',
+      message: `${stacksAddress} holds ${formatAmount(balances.usdcx)} USDCx but the withdrawal needs ${formatAmount(microAmount)} USDCx`
+    });
+  }
+  if (balances && balances.stx < fees.medium) {
+    issues.push({
+      severity: 'error',
+      cause: 'insufficient_gas',
+      message: `${stacksAddress} holds ${formatAmount(balances.stx)} unlocked STX but the burn needs about ${formatAmount(fees.medium)} STX in fees`
+    });
+  } else if (balances && balances.stx < fees.high) {
+    issues.push({
+      severity: 'warning',
+      cause: 'low_gas',
+      message: `${formatAmount(balances.stx)} STX covers the expected fee but not the ${formatAmount(fees.high)} STX high estimate`
+    });
+  }
+
+  const summary = balances && { stx: balances.stx.toString(), usdcx: balances.usdcx.toString() };
+
+  try {
+    if (await isBurnPaused()) {
+      issues.push({ severity: 'error', cause: 'contract_paused', message: 'The usdcx-v1 contract is paused, so burns are rejected' });
+    }
+  } catch (error) {
+    issues.push({ severity: 'warning', cause: 'check_unavailable', message: `Could not read the contract's paused flag: ${errorMessage(error)}` });
+  }
+
+  return report(issues, 'not_supported', summary);
+}
@@ -0,0 +1,144 @@
+// Bridge quotes: source chain network fees, the xReserve fee limit and the amount received
+import { formatEther, formatGwei, type Address } from 'viem';
+import { estimateDepositFees, type DepositFeeEstimate } from './ethereum.js';
+import { estimateBurnFee, type BurnFeeEstimate } from './stacks.js';
+import { estimateTransferTime, type TransferTimeEstimate } from './eta.js';
+import { getNetworkProfile } from './network.js';
+import type { TransferDirection } from './journal.js';
+import { formatAmount } from '../../shared/amount.js';
+
+export interface NetworkFeeQuote {
+  asset: 'ETH' | 'STX';
+  expected: string;
+  expectedBaseUnits: string; // wei or micro-STX
+  max: string;
+  maxBaseUnits: string;
+  estimated: boolean; // false when part of the figure is a default rather than a live estimate
+  gas?: {
+    approval: string; // 0 when no approval is needed
+    deposit: string;
+    baseFeePerGasGwei: string;
+    maxFeePerGasGwei: string;
+    maxPriorityFeePerGasGwei: string;
+  };
+  tiers?: {
+    low: string; // micro-STX
+    medium: string;
+    high: string;
+    source: BurnFeeEstimate['source'];
+  };
+}
+
+/**
+ * JSON-safe quote for one bridge transfer
+ */
+export interface BridgeQuote {
+  direction: TransferDirection;
+  amount: string;
+  amountBaseUnits: string;
+  networkFee: NetworkFeeQuote;
+  bridgeMaxFee: string; // most the bridge may deduct; for deposits this is the maxFee argument
+  bridgeMaxFeeBaseUnits: string;
+  netAmount: string; // least the recipient receives
+  netAmountBaseUnits: string;
+  estimatedTime: string;
+  timeEstimate: TransferTimeEstimate;
+  quotedAt: string;
+}
+
+export interface QuoteRequest {
+  direction: TransferDirection;
+  amount: bigint;
+  sender?: string;
+  recipient?: string;
+}
+
+/**
+ * Quote for a deposit priced with an existing fee and time estimate
+ */
+export function depositQuote(amount: bigint, fees: DepositFeeEstimate, time: TransferTimeEstimate): BridgeQuote {
+  const maxFee = getNetworkProfile().ethereum.depositMaxFee;
+
+  return {
+    direction: 'deposit',
+    amount: formatAmount(amount),
+    amountBaseUnits: amount.toString(),
+    networkFee: {
+      asset: 'ETH',
+      expected: formatEther(fees.expectedFee),
+      expectedBaseUnits: fees.expectedFee.toString(),
+      max: formatEther(fees.maxNetworkFee),
+      maxBaseUnits: fees.maxNetworkFee.toString(),
+      estimated: fees.gasEstimated,
+      gas: {
+        approval: fees.approvalGas.toString(),
+        deposit: fees.depositGas.toString(),
+        baseFeePerGasGwei: formatGwei(fees.baseFeePerGas),
+        maxFeePerGasGwei: formatGwei(fees.maxFeePerGas),
+        maxPriorityFeePerGasGwei: formatGwei(fees.maxPriorityFeePerGas)
+      }
+    },
+    bridgeMaxFee: formatAmount(maxFee),
+    bridgeMaxFeeBaseUnits: maxFee.toString(),
+    netAmount: formatAmount(amount - maxFee),
+    netAmountBaseUnits: (amount - maxFee).toString(),
+    estimatedTime: time.normal,
+    timeEstimate: time,
+    quotedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Quote for a withdrawal priced with an existing fee and time estimate.
+ * burn takes no fee argument and the release must equal the burned amount, so there is no bridge fee.
+ */
+export function withdrawalQuote(amount: bigint, fees: BurnFeeEstimate, time: TransferTimeEstimate): BridgeQuote {
+  return {
+    direction: 'withdrawal',
+    amount: formatAmount(amount),
+    amountBaseUnits: amount.toString(),
+    networkFee: {
+      asset: 'STX',
+      expected: formatAmount(fees.medium),
+      expectedBaseUnits: fees.medium.toString(),
+      max: formatAmount(fees.high),
+      maxBaseUnits: fees.high.toString(),
+      estimated: fees.source !== 'default',
+      tiers: {
+        low: fees.low.toString(),
+        medium: fees.medium.toString(),
+        high: fees.high.toString(),
+        source: fees.source
+      }
+    },
+    bridgeMaxFee: formatAmount(0n),
+    bridgeMaxFeeBaseUnits: '0',
+    netAmount: formatAmount(amount),
+    netAmountBaseUnits: amount.toString(),
+    estimatedTime: time.normal,
+    timeEstimate: time,
+    quotedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Fresh quote for either direction. Sender and recipient are optional; with them the
+ * deposit quote reflects the sender's allowance, a permit where one would be offered, and an actual gas estimate.
+ */
+export async function quoteBridge({ direction, amount, sender, recipient }: QuoteRequest): Promise<BridgeQuote> {
+  if (direction === 'deposit') {
+    const [fees, time] = await Promise.all([
+      estimateDepositFees(amount, sender as Address | undefined, recipient, { usePermit: true }),
+      estimateTransferTime('deposit')
+    ]);
+    return depositQuote(amount, fees, time);
+  }
+
+  // The burn's arguments barely affect its cost, so any recipient prices it
+  const ethereumRecipient = recipient ?? getNetworkProfile().ethereum.xreserveContract;
+  const [fees, time] = await Promise.all([
+    estimateBurnFee(amount, ethereumRecipient),
+    estimateTransferTime('withdrawal')
+  ]);
+  return withdrawalQuote(amount, fees, time);
+}
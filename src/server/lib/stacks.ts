@@ -6,191 +6,727 @@ import {
   Cl,
   Pc,
   type ContractCallPayload,
-  cvToString,
-  fetchCallReadOnlyFunction
+  serializeCV,
+  deserializeCV,
+  ClarityType,
+  fetchCallReadOnlyFunction,
+  fetchFeeEstimateTransaction,
+  fetchAbi,
+  fetchFeeEstimateTransfer,
+  createContractCallPayload,
+  serializePayload,
+  getAddressFromPublicKey
 } from '@stacks/transactions';
-import { STACKS_TESTNET, STACKS_MAINNET } from '@stacks/network';
-import { padEthereumAddress, fromMicroUSDC } from './helpers.js';
-import { type Hex } from 'viem';
+import { verifyMessageSignatureRsv } from '@stacks/encryption';
+import { type StacksNetwork } from '@stacks/network';
+import { padEthereumAddress } from './helpers.js';
+import { getNetworkProfile } from './network.js';
+import { formatAmount } from '../../shared/amount.js';
+import { explorerTxUrl } from '../../shared/network.js';
+import { getAddress, keccak256, stringToHex, type Address, type Hex } from 'viem';
 
-// Constants from official docs
-const ETHEREUM_DOMAIN = 0;
-const STACKS_USDCX_CONTRACT = process.env.STACKS_USDCX_CONTRACT || 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx-v1';
-const USDCX_TOKEN_CONTRACT = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.usdcx';
+// Mint searches page through the recipient's history newest first
+const MINT_SEARCH_PAGE_SIZE = 50;
+const MAX_MINT_SEARCH_PAGES = 4;
+// Replacement lookups only look at the sender's most recent transactions
+const REPLACEMENT_SEARCH_LIMIT = 50;
+// Address history reads at most MAX_HISTORY_PAGES pages of transactions
+const HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGES = 10;
+// Serialized size of a signed single-sig burn with one post-condition, for fee estimation
+const ESTIMATED_BURN_TX_BYTES = 300;
+// Used when the node cannot estimate fees at all (0.01 STX)
+const DEFAULT_BURN_FEE = 10_000n;
+// Block time is measured over this many recent blocks
+const BLOCK_TIME_SAMPLE_BLOCKS = 30;
+// Zero-argument read-only functions a pausable contract commonly exposes
+const PAUSED_FLAG_FUNCTIONS = ['is-paused', 'get-paused', 'paused'];
 
-// Network setup
-const network = process.env.STACKS_NETWORK === 'mainnet' ? STACKS_MAINNET : STACKS_TESTNET;
+/**
+ * Every tx_status the Stacks API reports
+ */
+export type StacksTxStatus =
+  | 'pending'
+  | 'success'
+  | 'abort_by_response'
+  | 'abort_by_post_condition'
+  | 'dropped_replace_by_fee'
+  | 'dropped_replace_across_fork'
+  | 'dropped_too_expensive'
+  | 'dropped_stale_garbage_collect'
+  | 'dropped_problematic';
+
+type StacksFailureStatus = Exclude<StacksTxStatus, 'pending' | 'success'>;
+
+// What the user should do next for each terminal failure
+const REMEDIATION: Record<StacksFailureStatus, string> = {
+  abort_by_response:
+    'The usdcx-v1 contract rejected the burn, so no USDCx left your wallet; only the STX fee was spent. ' +
+    'Check your USDCx balance and the minimum withdrawal, then prepare a new withdrawal.',
+  abort_by_post_condition:
+    'A post-condition did not hold, so the burn was reverted and no USDCx left your wallet. ' +
+    'Prepare a new withdrawal from the same address that signs it, for an amount you hold.',
+  dropped_replace_by_fee:
+    'Another transaction with the same nonce replaced this one, so it will never confirm. ' +
+    'Check the replacement transaction instead.',
+  dropped_replace_across_fork:
+    'A transaction with the same nonce was mined on a competing fork, so this one will never confirm. ' +
+    'Check the replacement transaction instead.',
+  dropped_too_expensive:
+    'The mempool evicted this transaction because its fee was too low. No funds moved. ' +
+    'Resubmit the withdrawal with a higher fee.',
+  dropped_stale_garbage_collect:
+    'This transaction waited in the mempool too long and was discarded. No funds moved. ' +
+    'Resubmit the withdrawal; if your account has an earlier pending transaction, that one must confirm first.',
+  dropped_problematic:
+    'Stacks nodes flagged this transaction as problematic and will not mine it. No funds moved. ' +
+    'Prepare a new withdrawal with the bridge tools rather than resubmitting the same transaction.'
+};
 
 export interface WithdrawalTransactionData {
   contractAddress: string;
   contractName: string;
   functionName: string;
-  functionArgs: any[];
+  functionArgs: string[]; // hex-serialized Clarity values (JSON-safe, no bigints)
   postConditions: any[];
-  network: typeof network;
+  network: StacksNetwork;
   estimatedFee: string;
 }
 
+export interface BurnFeeEstimate {
+  low: bigint; // micro-STX
+  medium: bigint;
+  high: bigint;
+  source: 'fee-endpoint' | 'transfer-rate' | 'default';
+}
+
+/**
+ * Prepared burn call plus the fee estimate it was priced with
+ */
+export interface PreparedWithdrawal {
+  txData: WithdrawalTransactionData;
+  fees: BurnFeeEstimate;
+}
+
 export interface StacksTransactionStatus {
   state: 'pending' | 'confirming' | 'attesting' | 'completed' | 'failed';
   confirmations: number;
   explorerUrl: string;
   eta?: string;
   errorMessage?: string;
+  lookupFailed?: boolean; // the API could not be queried, so `state` is a placeholder rather than news
+  txStatus?: StacksTxStatus;
+  anchored?: boolean; // false while only in a microblock
+  remediation?: string;
+  replacedBy?: { txId: string; explorerUrl: string };
+  burn?: BurnDetails;
+}
+
+export interface BurnPostCondition {
+  type: string;
+  principal: string;
+  condition: string;
+  amount?: string;
+  asset?: string;
+}
+
+export interface BurnDetails {
+  sender: string;
+  amount: bigint;
+  remoteDomain: number;
+  paddedRecipient: Hex;
+  ethereumRecipient: Address | null; // null when the upper 12 bytes are not zero padding
+  fee: bigint; // micro-STX
+  postConditionMode: 'allow' | 'deny';
+  postConditions: BurnPostCondition[];
+  calldataHash: Hex; // see burnCalldataHash
+  timestamp?: number; // unix seconds of the inclusion block, once mined
+}
+
+export interface BurnTransaction {
+  txId: string;
+  burn: BurnDetails;
+  timestamp: number; // inclusion time, or when the mempool received it
+}
+
+export interface USDCxMint {
+  txId: string;
+  amount: bigint;
+  timestamp: number;
+}
+
+/**
+ * Principal of a post-condition in a Stacks API transaction
+ */
+interface HiroPrincipal {
+  type_id: 'principal_origin' | 'principal_standard' | 'principal_contract';
+  address?: string;
+  contract_name?: string;
+}
+
+interface HiroPostCondition {
+  type: 'stx' | 'fungible' | 'non_fungible';
+  principal: HiroPrincipal;
+  condition_code: string;
+  amount?: string;
+  asset?: { contract_address: string; contract_name: string; asset_name: string };
+}
+
+interface HiroContractCall {
+  contract_id: string;
+  function_name: string;
+  function_args?: { hex: string; repr: string; name: string; type: string }[];
+}
+
+interface HiroTransactionFields {
+  tx_id: string;
+  tx_status: StacksTxStatus;
+  sender_address: string;
+  nonce: number;
+  fee_rate: string;
+  post_condition_mode: 'allow' | 'deny';
+  post_conditions?: HiroPostCondition[];
+  tx_result?: { hex: string; repr: string };
+  block_height?: number; // mined transactions only
+  block_time?: number;
+  burn_block_time?: number;
+  canonical?: boolean;
+  microblock_canonical?: boolean;
+  is_unanchored?: boolean;
+  receipt_time?: number; // mempool transactions only
+}
+
+/**
+ * The fields of an /extended/v1/tx response (mempool or mined) this module reads
+ */
+export type HiroTransaction =
+  | (HiroTransactionFields & { tx_type: 'contract_call'; contract_call: HiroContractCall })
+  | (HiroTransactionFields & {
+      tx_type: 'token_transfer' | 'smart_contract' | 'coinbase' | 'poison_microblock' | 'tenure_change';
+    });
+
+type HiroMempoolTransaction = HiroTransaction & { receipt_time: number };
+type HiroMinedTransaction = HiroTransaction & { block_height: number; burn_block_time: number };
+
+/**
+ * Fingerprint of a usdcx-v1 burn call, comparable between prepared and mined transactions
+ */
+export function burnCalldataHash(functionArgs: string[]): Hex {
+  const { stacks } = getNetworkProfile();
+  const args = functionArgs.map(arg => arg.replace(/^0x/, '').toLowerCase());
+  return keccak256(stringToHex(`${stacks.usdcxContract}.burn(${args.join(',')})`));
+}
+
+/**
+ * Clarity arguments of a usdcx-v1 burn to an Ethereum address
+ */
+function burnArgs(microAmount: bigint, ethereumRecipient: string) {
+  return [
+    Cl.uint(microAmount),
+    Cl.uint(getNetworkProfile().ethereum.domain),
+    Cl.bufferFromHex(padEthereumAddress(ethereumRecipient).slice(2)) // Remove 0x prefix
+  ];
+}
+
+/**
+ * Fee estimate for a burn from the node's /v2/fees/transaction endpoint.
+ * Falls back to the per-byte transfer rate when the node has no estimate for the call,
+ * and to DEFAULT_BURN_FEE when the node cannot be reached.
+ */
+export async function estimateBurnFee(microAmount: bigint, ethereumRecipient: string): Promise<BurnFeeEstimate> {
+  const { stacks } = getNetworkProfile();
+  const [contractAddress, contractName] = stacks.usdcxContract.split('.');
+  const payload = createContractCallPayload(contractAddress, contractName, 'burn', burnArgs(microAmount, ethereumRecipient));
+
+  try {
+    const [low, medium, high] = await fetchFeeEstimateTransaction({
+      payload: serializePayload(payload),
+      estimatedLength: ESTIMATED_BURN_TX_BYTES,
+      network: stacks.network
+    });
+    return { low: BigInt(low.fee), medium: BigInt(medium.fee), high: BigInt(high.fee), source: 'fee-endpoint' };
+  } catch (error) {
+    // NoEstimateAvailableError (not exported by @stacks/transactions) just means no data for this call yet
+    if (!(error instanceof Error && error.name === 'NoEstimateAvailableError')) {
+      console.warn('Stacks fee estimation failed:', error);
+    }
+  }
+
+  try {
+    const fee = await fetchFeeEstimateTransfer({ transaction: ESTIMATED_BURN_TX_BYTES, network: stacks.network });
+    return { low: fee, medium: fee, high: fee, source: 'transfer-rate' };
+  } catch (error) {
+    console.warn('Stacks fee rate lookup failed, using default:', error);
+    return { low: DEFAULT_BURN_FEE, medium: DEFAULT_BURN_FEE, high: DEFAULT_BURN_FEE, source: 'default' };
+  }
 }
 
 /**
  * Prepare withdrawal transaction (user signs in Stacks wallet)
  */
 export async function prepareWithdrawalTransaction(
-  amount: string,
+  microAmount: bigint,
   ethereumRecipient: string,
   stacksAddress: string
-): Promise<WithdrawalTransactionData> {
-  // Convert to micro-USDC
-  const microAmount = Math.floor(parseFloat(amount) * 1e6);
+): Promise<PreparedWithdrawal> {
+  const { stacks, limits } = getNetworkProfile();
 
-  // Validate minimum
-  if (microAmount < 4_800_000) {
-    throw new Error('Minimum withdrawal is 4.80 USDCx');
+  // Validate minimum (microAmount is in USDCx base units, 6 decimals)
+  if (microAmount < limits.minWithdrawal) {
+    throw new Error(`Minimum withdrawal is ${formatAmount(limits.minWithdrawal)} USDCx`);
   }
 
-  // Pad Ethereum address to 32 bytes
-  const paddedEthAddress = padEthereumAddress(ethereumRecipient);
-
   // Parse contract parts
-  const [contractAddress, contractName] = STACKS_USDCX_CONTRACT.split('.');
-
-  // Function arguments for burn
-  const functionArgs = [
-    Cl.uint(microAmount),
-    Cl.uint(ETHEREUM_DOMAIN),
-    Cl.bufferFromHex(paddedEthAddress.slice(2)) // Remove 0x prefix
-  ];
+  const [contractAddress, contractName] = stacks.usdcxContract.split('.');
 
   // Post-condition: ensure USDCx is burned from sender
   const postCondition = Pc.principal(stacksAddress)
     .willSendEq(microAmount)
-    .ft(USDCX_TOKEN_CONTRACT, 'usdcx-token');
+    .ft(stacks.usdcxTokenContract as `${string}.${string}`, stacks.usdcxTokenName);
 
-  return {
+  const fees = await estimateBurnFee(microAmount, ethereumRecipient);
+
+  const txData: WithdrawalTransactionData = {
     contractAddress,
     contractName,
     functionName: 'burn',
-    functionArgs,
+    functionArgs: burnArgs(microAmount, ethereumRecipient).map(arg => serializeCV(arg)),
     postConditions: [postCondition],
-    network,
-    estimatedFee: '0.01 STX' // Rough estimate for testnet
+    network: stacks.network,
+    estimatedFee: `${formatAmount(fees.medium)} STX`
   };
+
+  return { txData, fees };
+}
+
+export interface StacksBalances {
+  stx: bigint; // unlocked micro-STX
+  usdcx: bigint; // base units
 }
 
 /**
- * Get USDCx balance for a Stacks address
+ * Spendable STX and USDCx of an address. Throws when the API cannot be read.
  */
-export async function getUSDCxBalance(address: string): Promise<string> {
-  try {
-    const [tokenContract, tokenName] = USDCX_TOKEN_CONTRACT.split('.');
-
-    const balanceCall = await fetchCallReadOnlyFunction({
-      contractAddress: tokenContract,
-      contractName: tokenName,
-      functionName: 'get-balance',
-      functionArgs: [Cl.principal(address)],
-      network,
-      senderAddress: address,
-    });
+export async function getStacksBalances(address: string): Promise<StacksBalances> {
+  const { stacks } = getNetworkProfile();
+  const response = await fetch(`${stacks.apiUrl}/extended/v1/address/${address}/balances`);
+  if (!response.ok) {
+    throw new Error(`Stacks API returned ${response.status} for the balances of ${address}`);
+  }
 
-    const balanceValue = cvToString(balanceCall);
-    const microBalance = BigInt(balanceValue.replace(/[^0-9]/g, '') || '0');
+  const balances = await response.json();
+  const token = balances.fungible_tokens?.[`${stacks.usdcxTokenContract}::${stacks.usdcxTokenName}`];
+  return {
+    stx: BigInt(balances.stx.balance) - BigInt(balances.stx.locked ?? '0'),
+    usdcx: BigInt(token?.balance ?? '0')
+  };
+}
 
-    return fromMicroUSDC(microBalance);
-  } catch (error) {
-    console.error('Error fetching USDCx balance:', error);
-    return '0.000000';
+/**
+ * Whether the usdcx-v1 contract reports itself paused, or null when it exposes no paused flag
+ */
+export async function isBurnPaused(): Promise<boolean | null> {
+  const { stacks } = getNetworkProfile();
+  const [contractAddress, contractName] = stacks.usdcxContract.split('.');
+
+  const abi = await fetchAbi({ contractAddress, contractName, network: stacks.network });
+  const flag = abi.functions.find(fn =>
+    fn.access === 'read_only' && fn.args.length === 0 && PAUSED_FLAG_FUNCTIONS.includes(fn.name)
+  );
+  if (!flag) {
+    return null;
   }
+
+  const result = await fetchCallReadOnlyFunction({
+    contractAddress,
+    contractName,
+    functionName: flag.name,
+    functionArgs: [],
+    network: stacks.network,
+    senderAddress: contractAddress
+  });
+  const value = result.type === ClarityType.ResponseOk ? result.value : result;
+  return value.type === ClarityType.BoolTrue;
 }
 
 /**
  * Check transaction status on Stacks
  */
 export async function getStacksTransactionStatus(txId: string): Promise<StacksTransactionStatus> {
-  try {
-    // Use Stacks API to check transaction status
-    const isMainnet = process.env.STACKS_NETWORK === 'mainnet';
-    const apiUrl = isMainnet
-      ? 'https://api.stacks.co'
-      : 'https://api.testnet.stacks.co';
+  const { stacks } = getNetworkProfile();
+  const apiUrl = stacks.apiUrl;
+  const explorerUrl = explorerTxUrl(stacks.explorerTxUrl, txId);
 
+  let txData: HiroTransaction;
+  try {
     const response = await fetch(`${apiUrl}/extended/v1/tx/${txId}`);
 
-    if (!response.ok) {
-      // Transaction not found yet
+    if (response.status === 404) {
+      // Not seen by the node yet
       return {
         state: 'pending',
         confirmations: 0,
-        explorerUrl: `https://explorer.hiro.so/txid/${txId}?chain=${isMainnet ? 'mainnet' : 'testnet'}`,
+        explorerUrl,
         eta: 'Waiting for transaction to be mined'
       };
     }
-
-    const txData = await response.json();
-
-    let state: StacksTransactionStatus['state'];
-    let eta: string | undefined;
-
-    switch (txData.tx_status) {
-      case 'success':
-        // Check confirmations
-        if (txData.block_height) {
-          const latestBlockResponse = await fetch(`${apiUrl}/v2/info`);
-          const latestBlock = await latestBlockResponse.json();
-          const confirmations = latestBlock.stacks_tip_height - txData.block_height + 1;
-
-          if (confirmations >= 6) {
-            state = 'attesting';
-            eta = '~25 minutes (Circle attestation in progress)';
-          } else {
-            state = 'confirming';
-            eta = `${(6 - confirmations) * 10} minutes`;
-          }
-        } else {
-          state = 'confirming';
-          eta = '~60 seconds';
-        }
-
-        return {
-          state,
-          confirmations: txData.block_height ?
-            (await fetch(`${apiUrl}/v2/info`).then(r => r.json())).stacks_tip_height - txData.block_height + 1 : 0,
-          explorerUrl: `https://explorer.hiro.so/txid/${txId}?chain=${isMainnet ? 'mainnet' : 'testnet'}`
-        };
-
-      case 'abort_by_response':
-      case 'abort_by_post_condition':
-        return {
-          state: 'failed',
-          confirmations: 0,
-          explorerUrl: `https://explorer.hiro.so/txid/${txId}?chain=${isMainnet ? 'mainnet' : 'testnet'}`,
-          errorMessage: `Transaction failed: ${txData.tx_result?.repr || 'Unknown error'}`
-        };
-
-      default:
-        return {
-          state: 'pending',
-          confirmations: 0,
-          explorerUrl: `https://explorer.hiro.so/txid/${txId}?chain=${isMainnet ? 'mainnet' : 'testnet'}`,
-          eta: 'Transaction pending'
-        };
+    if (!response.ok) {
+      console.error(`Stacks API returned ${response.status} for transaction ${txId}`);
+      return {
+        state: 'pending',
+        confirmations: 0,
+        explorerUrl,
+        errorMessage: `Could not fetch transaction status (Stacks API returned ${response.status})`,
+        lookupFailed: true
+      };
     }
+
+    txData = await response.json() as HiroTransaction;
   } catch (error) {
     console.error('Error checking Stacks transaction:', error);
     return {
       state: 'pending',
       confirmations: 0,
-      explorerUrl: `https://explorer.hiro.so/txid/${txId}?chain=${process.env.STACKS_NETWORK === 'mainnet' ? 'mainnet' : 'testnet'}`,
-      errorMessage: 'Could not fetch transaction status'
+      explorerUrl,
+      errorMessage: 'Could not fetch transaction status',
+      lookupFailed: true
+    };
+  }
+
+  // Anything other than a usdcx-v1 burn is rejected rather than tracked as a bridge transfer
+  const burn = decodeBurnTransaction(txData);
+  const txStatus = txData.tx_status;
+
+  switch (txStatus) {
+    case 'success':
+      return { ...(await confirmationStatus(txData)), explorerUrl, txStatus, burn };
+
+    case 'pending':
+      return {
+        state: 'pending',
+        confirmations: 0,
+        explorerUrl,
+        eta: 'In the mempool, waiting to be mined',
+        txStatus,
+        burn
+      };
+
+    case 'abort_by_response':
+    case 'abort_by_post_condition':
+      return {
+        state: 'failed',
+        confirmations: 0,
+        explorerUrl,
+        errorMessage: `Transaction failed: ${txData.tx_result?.repr || 'Unknown error'}`,
+        txStatus,
+        remediation: REMEDIATION[txStatus],
+        burn
+      };
+
+    case 'dropped_replace_by_fee':
+    case 'dropped_replace_across_fork': {
+      const replacement = await findReplacement(txData.sender_address, txData.nonce, txId);
+      return {
+        state: 'failed',
+        confirmations: 0,
+        explorerUrl,
+        errorMessage: replacement
+          ? `Transaction was replaced by ${replacement}`
+          : 'Transaction was replaced by another transaction with the same nonce',
+        txStatus,
+        remediation: REMEDIATION[txStatus],
+        ...(replacement && {
+          replacedBy: { txId: replacement, explorerUrl: explorerTxUrl(stacks.explorerTxUrl, replacement) }
+        }),
+        burn
+      };
+    }
+
+    case 'dropped_too_expensive':
+    case 'dropped_stale_garbage_collect':
+    case 'dropped_problematic':
+      return {
+        state: 'failed',
+        confirmations: 0,
+        explorerUrl,
+        errorMessage: `Transaction was dropped from the mempool (${txStatus.replace('dropped_', '').replace(/_/g, ' ')})`,
+        txStatus,
+        remediation: REMEDIATION[txStatus],
+        burn
+      };
+
+    default:
+      return {
+        state: 'pending',
+        confirmations: 0,
+        explorerUrl,
+        eta: `Unrecognized transaction status: ${txData.tx_status}`,
+        burn
+      };
+  }
+}
+
+/**
+ * Confirmation progress of a successful transaction, with a single chain tip lookup
+ */
+async function confirmationStatus(txData: HiroTransaction): Promise<Omit<StacksTransactionStatus, 'explorerUrl'>> {
+  const { stacks } = getNetworkProfile();
+
+  if (txData.canonical === false || txData.microblock_canonical === false) {
+    return {
+      state: 'pending',
+      confirmations: 0,
+      anchored: false,
+      eta: 'The block containing this transaction was orphaned; waiting for it to be mined again'
+    };
+  }
+
+  if (txData.is_unanchored || !txData.block_height) {
+    return {
+      state: 'confirming',
+      confirmations: 0,
+      anchored: false,
+      eta: 'Included in a microblock, waiting for an anchor block'
+    };
+  }
+
+  let tipHeight: number;
+  try {
+    const response = await fetch(`${stacks.apiUrl}/v2/info`);
+    if (!response.ok) {
+      throw new Error(`Stacks node returned ${response.status} for /v2/info`);
+    }
+    tipHeight = (await response.json() as { stacks_tip_height: number }).stacks_tip_height;
+  } catch (error) {
+    console.error('Error fetching Stacks chain tip:', error);
+    return {
+      state: 'confirming',
+      confirmations: 0,
+      anchored: true,
+      errorMessage: 'Could not fetch the Stacks chain tip'
     };
   }
+
+  // Time left in either state is estimated by the tracker from eta.ts
+  const confirmations = Math.max(tipHeight - txData.block_height + 1, 0);
+  return {
+    state: confirmations >= stacks.requiredConfirmations ? 'attesting' : 'confirming',
+    confirmations,
+    anchored: true
+  };
+}
+
+/**
+ * Find the transaction that took over a dropped transaction's nonce, in the mempool or on chain
+ */
+async function findReplacement(sender: string, nonce: number, txId: string): Promise<string | undefined> {
+  const { stacks } = getNetworkProfile();
+  const sources = [
+    `${stacks.apiUrl}/extended/v1/tx/mempool?sender_address=${sender}&limit=${REPLACEMENT_SEARCH_LIMIT}`,
+    `${stacks.apiUrl}/extended/v1/address/${sender}/transactions?limit=${REPLACEMENT_SEARCH_LIMIT}`
+  ];
+
+  for (const source of sources) {
+    try {
+      const response = await fetch(source);
+      if (!response.ok) continue;
+      const { results } = await response.json() as { results: HiroTransaction[] };
+      const replacement = results.find(tx => tx.nonce === nonce && tx.tx_id !== txId);
+      if (replacement) {
+        return replacement.tx_id;
+      }
+    } catch (error) {
+      console.error('Error looking up replacement transaction:', error);
+    }
+  }
+
+  return undefined;
+}
+
+function describePrincipal(principal: HiroPrincipal): string {
+  if (principal.type_id === 'principal_origin') return 'origin';
+  if (principal.type_id === 'principal_contract') return `${principal.address}.${principal.contract_name}`;
+  return principal.address ?? 'unknown';
+}
+
+/**
+ * Decode a usdcx-v1 burn from an /extended/v1/tx response (mempool or mined).
+ * Throws with an explanation when the transaction is anything else.
+ */
+export function decodeBurnTransaction(txData: HiroTransaction): BurnDetails {
+  const { stacks } = getNetworkProfile();
+  const expected = `${stacks.usdcxContract}.burn`;
+
+  if (txData.tx_type !== 'contract_call') {
+    throw new Error(
+      `Transaction ${txData.tx_id} is a ${txData.tx_type} transaction, not a USDCx withdrawal. ` +
+      `Withdrawals are contract calls to ${expected}.`
+    );
+  }
+
+  const call = txData.contract_call;
+  if (call.contract_id !== stacks.usdcxContract || call.function_name !== 'burn') {
+    throw new Error(
+      `Transaction ${txData.tx_id} calls ${call.contract_id}.${call.function_name}, not ${expected}, ` +
+      `so it is not a USDCx bridge withdrawal.`
+    );
+  }
+
+  const rawArgs = (call.function_args ?? []).map(arg => arg.hex);
+  const [amount, remoteDomain, recipient] = rawArgs.map(arg => deserializeCV(arg));
+  if (amount?.type !== ClarityType.UInt || remoteDomain?.type !== ClarityType.UInt ||
+      recipient?.type !== ClarityType.Buffer || recipient.value.length !== 64) {
+    throw new Error(`Transaction ${txData.tx_id} calls ${expected} with unexpected arguments`);
+  }
+
+  // The recipient is a 20-byte address left-padded to 32 bytes
+  const padding = recipient.value.slice(0, 24);
+  const ethereumRecipient = /^0+$/.test(padding) ? getAddress(`0x${recipient.value.slice(24)}`) : null;
+
+  return {
+    sender: txData.sender_address,
+    amount: BigInt(amount.value),
+    remoteDomain: Number(remoteDomain.value),
+    paddedRecipient: `0x${recipient.value}`,
+    ethereumRecipient,
+    fee: BigInt(txData.fee_rate),
+    postConditionMode: txData.post_condition_mode,
+    postConditions: (txData.post_conditions ?? []).map((pc): BurnPostCondition => ({
+      type: pc.type,
+      principal: describePrincipal(pc.principal),
+      condition: pc.condition_code,
+      ...(pc.amount !== undefined && { amount: String(pc.amount) }),
+      ...(pc.asset && { asset: `${pc.asset.contract_address}.${pc.asset.contract_name}::${pc.asset.asset_name}` })
+    })),
+    calldataHash: burnCalldataHash(rawArgs),
+    timestamp: txData.block_time ?? txData.burn_block_time
+  };
+}
+
+/**
+ * usdcx-v1 burns sent by an address between two unix timestamps, newest first (mempool included).
+ * `searchedFrom` is where the scan actually stopped when the address has more than
+ * MAX_HISTORY_PAGES pages of transactions after `since`.
+ */
+export async function findBurns(
+  sender: string,
+  since: number,
+  until?: number
+): Promise<{ burns: BurnTransaction[]; searchedFrom: number }> {
+  const { stacks } = getNetworkProfile();
+  const burns: BurnTransaction[] = [];
+
+  const collect = (txData: HiroTransaction, timestamp: number) => {
+    if (txData.tx_type !== 'contract_call') return;
+    const call = txData.contract_call;
+    if (call.contract_id !== stacks.usdcxContract || call.function_name !== 'burn') return;
+    if (timestamp < since || (until !== undefined && timestamp > until)) return;
+    try {
+      burns.push({ txId: txData.tx_id, burn: decodeBurnTransaction(txData), timestamp });
+    } catch {
+      // A burn with malformed arguments is not a bridge transfer
+    }
+  };
+
+  const mempool = await fetch(`${stacks.apiUrl}/extended/v1/tx/mempool?sender_address=${sender}&limit=${HISTORY_PAGE_SIZE}`);
+  if (!mempool.ok) {
+    throw new Error(`Stacks API returned ${mempool.status} for ${sender} mempool transactions`);
+  }
+  const { results: pending } = await mempool.json() as { results: HiroMempoolTransaction[] };
+  for (const txData of pending) {
+    collect(txData, txData.receipt_time);
+  }
+
+  // Until the scan reaches `since` or the address's first transaction, it covers back to the oldest one read
+  let oldest = Math.floor(Date.now() / 1000);
+  for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+    const response = await fetch(
+      `${stacks.apiUrl}/extended/v1/address/${sender}/transactions?limit=${HISTORY_PAGE_SIZE}&offset=${page * HISTORY_PAGE_SIZE}`
+    );
+    if (!response.ok) {
+      throw new Error(`Stacks API returned ${response.status} for ${sender} transactions`);
+    }
+
+    const { results } = await response.json() as { results: HiroMinedTransaction[] };
+    for (const txData of results) {
+      const timestamp = txData.block_time ?? txData.burn_block_time;
+      if (timestamp < since) {
+        return { burns, searchedFrom: since };
+      }
+      collect(txData, timestamp);
+      oldest = Math.min(oldest, timestamp);
+    }
+
+    if (results.length < HISTORY_PAGE_SIZE) {
+      return { burns, searchedFrom: since };
+    }
+  }
+
+  return { burns, searchedFrom: Math.max(oldest, since) };
+}
+
+/**
+ * Find the USDCx mint to a recipient that settles an Ethereum deposit.
+ * Returns the earliest matching mint after `since` (unix seconds), skipping mints in `exclude`
+ * (lowercase txids already matched to other deposits).
+ */
+export async function findUSDCxMint(
+  recipient: string,
+  minAmount: bigint,
+  maxAmount: bigint,
+  since: number,
+  exclude: ReadonlySet<string> = new Set()
+): Promise<USDCxMint | null> {
+  const { stacks } = getNetworkProfile();
+  const assetId = `${stacks.usdcxTokenContract}::${stacks.usdcxTokenName}`;
+  let earliest: USDCxMint | null = null;
+
+  for (let page = 0; page < MAX_MINT_SEARCH_PAGES; page++) {
+    const response = await fetch(
+      `${stacks.apiUrl}/extended/v1/address/${recipient}/transactions_with_transfers` +
+      `?limit=${MINT_SEARCH_PAGE_SIZE}&offset=${page * MINT_SEARCH_PAGE_SIZE}`
+    );
+    if (!response.ok) {
+      throw new Error(`Stacks API returned ${response.status} for ${recipient} transfers`);
+    }
+
+    const { results } = await response.json();
+    for (const { tx, ft_transfers: transfers = [] } of results) {
+      const time = tx.block_time ?? tx.burn_block_time;
+      // Attestation takes minutes, so a mint never lands in the same second as its deposit
+      if (time <= since) {
+        return earliest;
+      }
+      if (tx.tx_status !== 'success' || exclude.has(tx.tx_id.toLowerCase())) continue;
+
+      for (const transfer of transfers) {
+        const amount = BigInt(transfer.amount);
+        // Mints have no sender
+        if (transfer.asset_identifier === assetId && !transfer.sender && transfer.recipient === recipient &&
+            amount >= minAmount && amount <= maxAmount) {
+          earliest = { txId: tx.tx_id, amount, timestamp: time };
+        }
+      }
+    }
+
+    if (results.length < MINT_SEARCH_PAGE_SIZE) break;
+  }
+
+  return earliest;
+}
+
+/**
+ * Whether `signature` (RSV hex, as Stacks wallets return it) signs `message` with `publicKey`,
+ * and that key belongs to `address` on the active network
+ */
+export function verifyStacksMessage(address: string, message: string, signature: string, publicKey: string): boolean {
+  try {
+    return getAddressFromPublicKey(publicKey, getNetworkProfile().stacks.network) === address &&
+      verifyMessageSignatureRsv({ message, publicKey, signature });
+  } catch {
+    // Malformed keys and signatures do not verify
+    return false;
+  }
 }
 
 /**
@@ -198,7 +734,8 @@ export async function getStacksTransactionStatus(txId: string): Promise<StacksTr
  */
 export async function checkStacksContractHealth(): Promise<{ healthy: boolean; error?: string }> {
   try {
-    const [contractAddress, contractName] = STACKS_USDCX_CONTRACT.split('.');
+    const { stacks } = getNetworkProfile();
+    const [contractAddress, contractName] = stacks.usdcxContract.split('.');
 
     // Try to read contract info
     const infoCall = await fetchCallReadOnlyFunction({
@@ -206,7 +743,7 @@ export async function checkStacksContractHealth(): Promise<{ healthy: boolean; e
       contractName,
       functionName: 'get-token-uri',
       functionArgs: [],
-      network,
+      network: stacks.network,
       senderAddress: contractAddress, // Use contract address as sender for read-only
     });
 
@@ -220,12 +757,19 @@ export async function checkStacksContractHealth(): Promise<{ healthy: boolean; e
 }
 
 /**
- * Estimate withdrawal completion time based on current network conditions
+ * Current average Stacks block time in seconds, measured from recent blocks
  */
-export function estimateWithdrawalTime(): { fast: string; normal: string; slow: string } {
-  return {
-    fast: '20-30 minutes',
-    normal: '25-45 minutes',
-    slow: '45-90 minutes'
-  };
-}
\ No newline at end of file
+export async function getStacksBlockSeconds(): Promise<number> {
+  const { stacks } = getNetworkProfile();
+  const response = await fetch(`${stacks.apiUrl}/extended/v2/blocks?limit=${BLOCK_TIME_SAMPLE_BLOCKS}`);
+  if (!response.ok) {
+    throw new Error(`Stacks API returned ${response.status} for recent blocks`);
+  }
+
+  // Newest first
+  const { results } = await response.json() as { results: { block_time: number }[] };
+  if (results.length < 2) {
+    throw new Error('Not enough recent Stacks blocks to measure block time');
+  }
+  return (results[0].block_time - results[results.length - 1].block_time) / (results.length - 1);
+}
@@ -0,0 +1,380 @@
+// Transfer tracker: follows a deposit or burn through to the destination chain
+import { type Hex } from 'viem';
+import {
+  getEthereumTransactionStatus,
+  getDepositDetails,
+  getDepositRevertReason,
+  findUSDCRelease,
+  type DepositDetails,
+  type TransactionStatus
+} from './ethereum.js';
+import {
+  getStacksTransactionStatus,
+  findUSDCxMint,
+  type BurnDetails,
+  type BurnPostCondition,
+  type StacksTransactionStatus
+} from './stacks.js';
+import { getNetworkProfile } from './network.js';
+import { recordTransferStatus, getJournalEntries } from './journal.js';
+import { estimateRemainingTime } from './eta.js';
+import { formatAmount } from '../../shared/amount.js';
+import { explorerTxUrl } from '../../shared/network.js';
+
+export type BridgeChain = 'ethereum' | 'stacks';
+
+// How often the journal's in-flight transfers are re-checked
+const JOURNAL_SYNC_INTERVAL_MS = 60_000;
+// Destination matches remembered beyond the journal, oldest dropped first
+const MAX_CLAIMED_DESTINATIONS = 10_000;
+
+// Destinations matched by this process (lowercase destination txid → lowercase source txid),
+// so equal transfers to one recipient each settle with a different mint or release
+const claimedDestinations = new Map<string, string>();
+
+export interface TransferDestination {
+  chain: BridgeChain;
+  txId: string;
+  explorerUrl: string;
+  amount: string;
+  amountBaseUnits: string;
+  timestamp: number; // unix seconds
+}
+
+/**
+ * JSON-safe view of a decoded depositToRemote call
+ */
+export interface DepositSummary {
+  sender: string;
+  amount: string;
+  amountBaseUnits: string;
+  remoteDomain: number;
+  remoteRecipient: string;
+  stacksRecipient: string | null;
+  localToken: string;
+  maxFee: string;
+  maxFeeBaseUnits: string;
+  hookData: string;
+  calldataHash: string;
+  timestamp?: number; // unix seconds of the inclusion block
+  transferredAmount?: string;
+  transferredAmountBaseUnits?: string;
+  gasFeeWei?: string;
+}
+
+/**
+ * JSON-safe view of a decoded usdcx-v1 burn call
+ */
+export interface WithdrawalSummary {
+  sender: string;
+  amount: string;
+  amountBaseUnits: string;
+  remoteDomain: number;
+  paddedRecipient: string;
+  ethereumRecipient: string | null;
+  fee: string; // STX
+  feeMicroStx: string;
+  postConditionMode: 'allow' | 'deny';
+  postConditions: BurnPostCondition[];
+  calldataHash: string;
+  timestamp?: number; // unix seconds of the inclusion block
+}
+
+export interface TransferStatus extends TransactionStatus {
+  transferId?: string; // journal entry, when this server prepared the transfer
+  requiredConfirmations?: number; // source chain confirmations before attestation, from the network profile
+  txStatus?: StacksTransactionStatus['txStatus'];
+  anchored?: boolean;
+  remediation?: string;
+  replacedBy?: StacksTransactionStatus['replacedBy'];
+  deposit?: DepositSummary;
+  withdrawal?: WithdrawalSummary;
+  destination?: TransferDestination;
+}
+
+export interface TrackOptions {
+  record?: boolean; // write the status to the journal (default true); history lookups only read it
+}
+
+/**
+ * Status of a bridge transfer, identified by its source transaction.
+ * Only reports `completed` once the matching mint or release is found on the destination chain.
+ * Confirming and attesting ETAs come from eta.ts, under current chain conditions.
+ */
+export async function trackTransfer(
+  txId: string,
+  chain: BridgeChain,
+  { record = true }: TrackOptions = {}
+): Promise<TransferStatus> {
+  const status = chain === 'ethereum' ? await trackDeposit(txId as Hex) : await trackWithdrawal(txId);
+  const { ethereum, stacks } = getNetworkProfile();
+  status.requiredConfirmations = chain === 'ethereum' ? ethereum.requiredConfirmations : stacks.requiredConfirmations;
+
+  const calldataHash = status.deposit?.calldataHash ?? status.withdrawal?.calldataHash;
+  const entry = !calldataHash ? undefined
+    : record ? recordTransferStatus(calldataHash as Hex, txId, status)
+    : getJournalEntries().find(e => e.sourceTxId?.toLowerCase() === txId.toLowerCase());
+  if (entry) {
+    status.transferId = entry.id;
+  }
+
+  // A microblock-only transaction keeps the chain's own explanation
+  if (status.anchored !== false) {
+    const eta = await estimateRemainingTime(chain === 'ethereum' ? 'deposit' : 'withdrawal', status, entry?.confirmedAt);
+    if (eta) {
+      status.eta = eta;
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Re-check every submitted transfer in the journal that has not reached a terminal state
+ */
+export async function syncJournal(): Promise<void> {
+  const open = getJournalEntries().filter(entry =>
+    entry.sourceTxId && entry.state !== 'completed' && entry.state !== 'failed'
+  );
+
+  for (const entry of open) {
+    try {
+      await trackTransfer(entry.sourceTxId!, entry.direction === 'deposit' ? 'ethereum' : 'stacks');
+    } catch (error) {
+      console.error(`Error syncing transfer ${entry.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Keep journal states current in the background for the life of the process
+ */
+export function startJournalSync(): void {
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await syncJournal();
+    } finally {
+      running = false;
+    }
+  }, JOURNAL_SYNC_INTERVAL_MS).unref();
+}
+
+/**
+ * Destination transactions already matched to a source other than `txId`, in the journal or by this process
+ */
+function claimedByOthers(txId: string): Set<string> {
+  const source = txId.toLowerCase();
+  const claimed = new Set<string>();
+
+  for (const entry of getJournalEntries()) {
+    if (entry.destinationTxId && entry.sourceTxId?.toLowerCase() !== source) {
+      claimed.add(entry.destinationTxId.toLowerCase());
+    }
+  }
+  for (const [destination, claimedBy] of claimedDestinations) {
+    if (claimedBy !== source) {
+      claimed.add(destination);
+    }
+  }
+  return claimed;
+}
+
+function claimDestination(txId: string, destination: TransferDestination): void {
+  if (claimedDestinations.size >= MAX_CLAIMED_DESTINATIONS) {
+    claimedDestinations.delete(claimedDestinations.keys().next().value!);
+  }
+  claimedDestinations.set(destination.txId.toLowerCase(), txId.toLowerCase());
+}
+
+function completed(status: TransactionStatus, destination: TransferDestination): TransferStatus {
+  return {
+    ...status,
+    state: 'completed',
+    eta: undefined,
+    destination
+  };
+}
+
+/**
+ * Deposit (Ethereum) → USDCx mint (Stacks), with the decoded deposit call attached
+ */
+async function trackDeposit(txHash: Hex): Promise<TransferStatus> {
+  const entry = getJournalEntries().find(e => e.sourceTxId?.toLowerCase() === txHash.toLowerCase());
+  const status: TransferStatus = await getEthereumTransactionStatus(txHash, entry?.inclusion);
+
+  // The node could not be reached: report the last recorded state, not a placeholder pending
+  if (status.lookupFailed) {
+    return entry && entry.state !== 'prepared' ? { ...status, state: entry.state, transferId: entry.id } : status;
+  }
+
+  let deposit: DepositDetails | null = null;
+  try {
+    deposit = await getDepositDetails(txHash);
+  } catch (error) {
+    // Not yet visible to the RPC node; the status already says pending
+    if (status.state !== 'pending') {
+      console.error('Error decoding deposit transaction:', error);
+    }
+  }
+
+  if (deposit) {
+    status.deposit = summarizeDeposit(deposit);
+  }
+
+  if (status.state === 'failed' && deposit) {
+    try {
+      const reason = await getDepositRevertReason(txHash);
+      if (reason) {
+        status.errorMessage = `Deposit reverted: ${reason}`;
+      }
+    } catch (error) {
+      console.error('Error decoding deposit revert:', error);
+    }
+  }
+
+  if (status.state !== 'attesting' || !deposit) {
+    return status;
+  }
+
+  try {
+    const destination = await findDepositDestination(txHash, deposit);
+    if (destination) {
+      claimDestination(txHash, destination);
+      return completed(status, destination);
+    }
+  } catch (error) {
+    console.error('Error looking up destination transaction:', error);
+  }
+
+  return status;
+}
+
+function summarizeDeposit(deposit: DepositDetails): DepositSummary {
+  return {
+    sender: deposit.sender,
+    amount: formatAmount(deposit.amount),
+    amountBaseUnits: deposit.amount.toString(),
+    remoteDomain: deposit.remoteDomain,
+    remoteRecipient: deposit.remoteRecipient,
+    stacksRecipient: deposit.stacksRecipient,
+    localToken: deposit.localToken,
+    maxFee: formatAmount(deposit.maxFee),
+    maxFeeBaseUnits: deposit.maxFee.toString(),
+    hookData: deposit.hookData,
+    calldataHash: deposit.calldataHash,
+    ...(deposit.timestamp !== undefined && { timestamp: Number(deposit.timestamp) }),
+    ...(deposit.gasFee !== undefined && { gasFeeWei: deposit.gasFee.toString() }),
+    ...(deposit.transferredAmount !== undefined && {
+      transferredAmount: formatAmount(deposit.transferredAmount),
+      transferredAmountBaseUnits: deposit.transferredAmount.toString()
+    })
+  };
+}
+
+/**
+ * The USDCx mint for a deposit. The minted amount is the deposit less a fee of at most maxFee.
+ * Mints already matched to another deposit are skipped.
+ */
+async function findDepositDestination(txHash: Hex, deposit: DepositDetails): Promise<TransferDestination | null> {
+  if (!deposit.stacksRecipient || deposit.timestamp === undefined ||
+      deposit.remoteDomain !== getNetworkProfile().stacks.domain) {
+    return null;
+  }
+
+  const mint = await findUSDCxMint(
+    deposit.stacksRecipient,
+    deposit.amount - deposit.maxFee,
+    deposit.amount,
+    Number(deposit.timestamp),
+    claimedByOthers(txHash)
+  );
+  if (!mint) {
+    return null;
+  }
+
+  return {
+    chain: 'stacks',
+    txId: mint.txId,
+    explorerUrl: explorerTxUrl(getNetworkProfile().stacks.explorerTxUrl, mint.txId),
+    amount: formatAmount(mint.amount),
+    amountBaseUnits: mint.amount.toString(),
+    timestamp: mint.timestamp
+  };
+}
+
+/**
+ * Burn (Stacks) → USDC release (Ethereum), with the decoded burn call attached.
+ * Throws when the transaction is not a usdcx-v1 burn.
+ */
+async function trackWithdrawal(txId: string): Promise<TransferStatus> {
+  const { burn, ...status } = await getStacksTransactionStatus(txId);
+  const tracked: TransferStatus = burn ? { ...status, withdrawal: summarizeBurn(burn) } : status;
+
+  // The destination can only have settled once the source is final
+  if (tracked.state !== 'attesting' || !burn) {
+    return tracked;
+  }
+
+  try {
+    const destination = await findWithdrawalDestination(txId, burn);
+    if (destination) {
+      claimDestination(txId, destination);
+      return completed(tracked, destination);
+    }
+  } catch (error) {
+    console.error('Error looking up destination transaction:', error);
+  }
+
+  return tracked;
+}
+
+function summarizeBurn(burn: BurnDetails): WithdrawalSummary {
+  return {
+    sender: burn.sender,
+    amount: formatAmount(burn.amount),
+    amountBaseUnits: burn.amount.toString(),
+    remoteDomain: burn.remoteDomain,
+    paddedRecipient: burn.paddedRecipient,
+    ethereumRecipient: burn.ethereumRecipient,
+    fee: formatAmount(burn.fee),
+    feeMicroStx: burn.fee.toString(),
+    postConditionMode: burn.postConditionMode,
+    postConditions: burn.postConditions,
+    calldataHash: burn.calldataHash,
+    ...(burn.timestamp !== undefined && { timestamp: burn.timestamp })
+  };
+}
+
+/**
+ * The USDC release for a burn. burn takes no fee argument, so the release must equal the burned amount.
+ * Releases already matched to another burn are skipped.
+ */
+async function findWithdrawalDestination(txId: string, burn: BurnDetails): Promise<TransferDestination | null> {
+  if (!burn.ethereumRecipient || burn.timestamp === undefined ||
+      burn.remoteDomain !== getNetworkProfile().ethereum.domain) {
+    return null;
+  }
+
+  const release = await findUSDCRelease(
+    burn.ethereumRecipient,
+    burn.amount,
+    burn.amount,
+    BigInt(burn.timestamp),
+    claimedByOthers(txId)
+  );
+  if (!release) {
+    return null;
+  }
+
+  return {
+    chain: 'ethereum',
+    txId: release.txHash,
+    explorerUrl: explorerTxUrl(getNetworkProfile().ethereum.explorerTxUrl, release.txHash),
+    amount: formatAmount(release.amount),
+    amountBaseUnits: release.amount.toString(),
+    timestamp: Number(release.timestamp)
+  };
+}
@@ -0,0 +1,166 @@
+// Zod field schemas shared by the tool registry and the HTTP routes
+import { z } from 'zod';
+import { getAddress, type Address } from 'viem';
+import { isValidStacksAddress, isValidEthereumAddress } from './lib/helpers.js';
+import { parseAmount, formatAmount, AmountError } from '../shared/amount.js';
+
+/**
+ * A single offending input field, reported back to the model
+ */
+export interface FieldIssue {
+  field: string;
+  code: string;
+  reason: string;
+}
+
+// Distinguish a missing field from one of the wrong type
+function requiredString(description: string) {
+  return z.string({
+    error: (issue) => issue.input === undefined ? 'Required' : 'Must be a string'
+  }).trim().describe(description);
+}
+
+/**
+ * Decimal token amount parsed to exact 6-decimal base units, without a minimum: for fields whose
+ * token depends on another argument, which then check the minimum themselves
+ */
+export function decimalAmountSchema(description: string) {
+  return requiredString(description)
+    .transform((value, ctx) => {
+      try {
+        return parseAmount(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: 'custom',
+          message: error instanceof AmountError ? error.message : 'Invalid amount'
+        });
+        return z.NEVER;
+      }
+    });
+}
+
+/**
+ * Decimal token amount parsed to exact 6-decimal base units, with a minimum
+ * (read lazily so it follows the active network profile)
+ */
+export function amountSchema(description: string, minimum: () => bigint, token: string) {
+  return decimalAmountSchema(description)
+    .superRefine((value, ctx) => {
+      if (value < minimum()) {
+        ctx.addIssue({ code: 'custom', message: `Minimum is ${formatAmount(minimum())} ${token}` });
+      }
+    });
+}
+
+/**
+ * 0x-prefixed 20-byte Ethereum address, checksummed (any casing is accepted)
+ */
+export function ethereumAddressSchema(description: string) {
+  return requiredString(description)
+    .refine(isValidEthereumAddress, 'Must be a 0x-prefixed 40 character hex Ethereum address')
+    .transform((value): Address => getAddress(value.toLowerCase()));
+}
+
+/**
+ * c32check-encoded Stacks address
+ */
+export function stacksAddressSchema(description: string) {
+  return requiredString(description)
+    .refine(isValidStacksAddress, 'Must be a valid Stacks address (SP... or ST...)');
+}
+
+/**
+ * Either an Ethereum or a Stacks address
+ */
+export function bridgeAddressSchema(description: string) {
+  return requiredString(description)
+    .refine(
+      value => isValidEthereumAddress(value) || isValidStacksAddress(value),
+      'Must be an Ethereum address (0x...) or a Stacks address (SP... or ST...)'
+    );
+}
+
+/**
+ * ISO 8601 date or date-time, parsed to unix seconds.
+ * A bare date bounds the range at the start of that day, or at its end with `endOfDay`.
+ */
+export function dateSchema(description: string, endOfDay = false) {
+  return requiredString(description)
+    .refine(value => /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value)),
+      'Must be an ISO 8601 date such as 2025-01-31 or 2025-01-31T12:00:00Z')
+    .transform(value => {
+      const seconds = Math.floor(Date.parse(value) / 1000);
+      return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? seconds + 86_399 : seconds;
+    });
+}
+
+/**
+ * Chain selector for tools that accept either side of the bridge
+ */
+export function chainSchema(description: string) {
+  return z.enum(['ethereum', 'stacks'], {
+    error: (issue) => issue.input === undefined ? 'Required' : 'Must be "ethereum" or "stacks"'
+  }).describe(description);
+}
+
+/**
+ * 32-byte transaction hash (Stacks txids may omit the 0x prefix)
+ */
+export function txHashSchema(description: string) {
+  return requiredString(description)
+    .regex(/^(0x)?[a-fA-F0-9]{64}$/, 'Must be a 32-byte hex transaction hash');
+}
+
+/**
+ * Journal transfer ID (a UUID) or a source transaction hash
+ */
+export function transferIdSchema(description: string) {
+  return requiredString(description)
+    .regex(
+      /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|(0x)?[a-fA-F0-9]{64})$/,
+      'Must be a transfer ID or a 32-byte hex transaction hash'
+    );
+}
+
+/**
+ * Arguments of a status check (the checkStatus tool and GET /status/:chain/:txHash)
+ */
+export const checkStatusSchema = z.object({
+  txHash: txHashSchema('Transaction hash to check'),
+  chain: chainSchema('Which chain the transaction is on')
+}).refine(({ txHash, chain }) => chain !== 'ethereum' || txHash.startsWith('0x'), {
+  path: ['txHash'],
+  message: 'Ethereum transaction hashes must start with 0x'
+});
+
+/**
+ * Arguments of a transfer history export (the exportTransfers tool and GET /export/transfers)
+ */
+export const exportTransfersSchema = z.object({
+  addresses: z.array(bridgeAddressSchema('Ethereum or Stacks address'))
+    .min(1, 'At least one address is required')
+    .max(20, 'At most 20 addresses per export')
+    .describe('Addresses whose transfers to export'),
+  from: dateSchema('Start of the date range, ISO 8601 (default: 30 days ago)').optional(),
+  to: dateSchema('End of the date range, ISO 8601 (default: now)', true).optional(),
+  format: z.enum(['csv', 'json']).default('csv').describe('Export format')
+});
+
+/**
+ * Body of POST /intents/:id/claim: the sender's signature of intentClaimMessage
+ */
+export const intentClaimSchema = z.object({
+  signature: requiredString('Hex signature of the claim message').regex(/^(0x)?[0-9a-fA-F]+$/, 'Must be hex'),
+  publicKey: requiredString('Hex public key that made a Stacks signature').regex(/^(0x)?[0-9a-fA-F]+$/, 'Must be hex').optional()
+});
+
+/**
+ * Flatten zod issues into field-level reasons
+ */
+export function toFieldIssues(error: z.ZodError): FieldIssue[] {
+  return error.issues.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '(input)',
+    code: issue.code,
+    reason: issue.message
+  }));
+}
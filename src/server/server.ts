@@ -0,0 +1,31 @@
+// MCP server definition shared by the stdio and HTTP transports
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { registerTools, type ToolContext } from './tools.js';
+import { registerWidgets } from './widgets.js';
+
+export const SERVER_NAME = 'usdcx-bridge';
+export const SERVER_VERSION = '1.0.0';
+
+/**
+ * Create an MCP server with every bridge tool and widget template registered
+ */
+export function createBridgeServer(context: ToolContext = {}): Server {
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {}
+      }
+    }
+  );
+
+  // Tools are defined once in the shared registry
+  registerTools(server, context);
+  registerWidgets(server, context);
+
+  return server;
+}
@@ -0,0 +1,63 @@
+// Startup checks shared by the stdio and HTTP entry points
+import { getConfig, ConfigError, type BridgeConfig, type SettingKey } from './lib/config.js';
+import { getNetworkProfile, toNetworkSummary, type NetworkProfile } from './lib/network.js';
+
+/**
+ * Keep only the origin of a URL, since RPC paths and queries often carry API keys
+ */
+function redactUrl(value: string): string {
+  const url = new URL(value);
+  const hasSecretParts = url.pathname !== '/' || url.search !== '' || url.username !== '';
+  return `${url.origin}${hasSecretParts ? '/<redacted>' : ''}`;
+}
+
+function describeConfig(config: BridgeConfig, profile: NetworkProfile) {
+  const settings = Object.fromEntries(
+    Object.entries(config.settings).map(([key, value]) => [key, {
+      value: typeof value === 'string' && /_URL$/.test(key) ? redactUrl(value) : value,
+      source: config.sources[key as SettingKey]
+    }])
+  );
+
+  return {
+    network: profile.name,
+    configFile: config.configFile ?? null,
+    settings,
+    resolved: {
+      ...toNetworkSummary(profile),
+      ethereumRpc: redactUrl(profile.ethereum.rpcUrl),
+      stacksApi: redactUrl(profile.stacks.apiUrl),
+      stacksUsdcxToken: `${profile.stacks.usdcxTokenContract}::${profile.stacks.usdcxTokenName}`,
+      limits: {
+        minDeposit: profile.limits.minDeposit.toString(),
+        minWithdrawal: profile.limits.minWithdrawal.toString()
+      }
+    },
+    warnings: config.warnings
+  };
+}
+
+/**
+ * Load and validate configuration, exiting on errors.
+ * With `--print-config`, prints the resolved configuration and exits.
+ */
+export function bootstrap(): { config: BridgeConfig; profile: NetworkProfile } {
+  try {
+    const config = getConfig();
+    const profile = getNetworkProfile();
+
+    if (process.argv.includes('--print-config')) {
+      console.log(JSON.stringify(describeConfig(config, profile), null, 2));
+      process.exit(0);
+    }
+
+    for (const warning of config.warnings) {
+      console.error(`⚠️  ${warning}`);
+    }
+
+    return { config, profile };
+  } catch (error) {
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,989 @@
+// Tool registry shared by the stdio and HTTP MCP servers
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { keccak256 } from 'viem';
+
+// Import bridge services
+import {
+  prepareDepositTransaction,
+  type ApprovalStrategy,
+  type ApprovalTransaction,
+  checkContractHealth
+} from './lib/ethereum.js';
+import {
+  prepareWithdrawalTransaction,
+  checkStacksContractHealth,
+  burnCalldataHash
+} from './lib/stacks.js';
+import { getNetworkProfile, toNetworkSummary } from './lib/network.js';
+import { recordPreparedTransfer, type JournalState } from './lib/journal.js';
+import { createIntent } from './lib/intents.js';
+import { listTransfers, getTransfer, type TransferRecord } from './lib/history.js';
+import { exportTransfers, EXPORT_SCHEMA_VERSION } from './lib/export.js';
+import { quoteBridge, depositQuote, withdrawalQuote, type BridgeQuote } from './lib/quote.js';
+import { estimateTransferTime, type TransferTimeEstimate } from './lib/eta.js';
+import { getBalances, isAccountError, type Affordability } from './lib/balances.js';
+import { manageAllowance } from './lib/allowance.js';
+import { preflightDeposit, preflightWithdrawal, PreflightError, type PreflightReport } from './lib/preflight.js';
+import { trackTransfer, type DepositSummary, type WithdrawalSummary } from './lib/tracker.js';
+import {
+  amountSchema,
+  decimalAmountSchema,
+  ethereumAddressSchema,
+  stacksAddressSchema,
+  chainSchema,
+  bridgeAddressSchema,
+  dateSchema,
+  transferIdSchema,
+  exportTransfersSchema,
+  checkStatusSchema,
+  toFieldIssues,
+  type FieldIssue
+} from './schemas.js';
+import { widgetToolMeta, type WidgetName } from './widgets.js';
+import { formatAmount } from '../shared/amount.js';
+
+/**
+ * Transport-specific settings passed to tool rendering
+ */
+export interface ToolContext {
+  /** Public base URL the widgets are served from (HTTP transport only) */
+  widgetBaseUrl?: string;
+}
+
+interface ToolDefinition<S extends z.ZodObject, R> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  widget?: WidgetName; // template the host renders the result in
+  handler: (input: z.infer<S>) => Promise<R>;
+  render: (result: R, input: z.infer<S>, context: ToolContext) => CallToolResult;
+}
+
+/**
+ * A tool as the registry holds it: its input and result types are closed over by `call`
+ */
+interface RegisteredTool {
+  name: string;
+  description: string;
+  inputSchema: z.ZodObject;
+  widget?: WidgetName;
+  call: (args: unknown, context: ToolContext) => Promise<CallToolResult>;
+}
+
+// Helper so each definition keeps its own input/result types
+function defineTool<S extends z.ZodObject, R>(tool: ToolDefinition<S, R>): RegisteredTool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    widget: tool.widget,
+    async call(args, context) {
+      const parsed = tool.inputSchema.safeParse(args ?? {});
+      if (!parsed.success) {
+        return renderValidationError(tool.name, toFieldIssues(parsed.error));
+      }
+
+      const result = await tool.handler(parsed.data);
+      return tool.render(result, parsed.data, context);
+    }
+  };
+}
+
+/**
+ * Build a link to a hosted widget page. Links carry only IDs; the page loads everything else
+ * (network included) from the server that serves it.
+ */
+function widgetUrl(context: ToolContext, page: string, params: Record<string, string>): string | undefined {
+  if (!context.widgetBaseUrl) return undefined;
+  return `${context.widgetBaseUrl}/widgets/${page}?${new URLSearchParams(params).toString()}`;
+}
+
+const STATE_EMOJI: Record<JournalState, string> = {
+  prepared: '📝',
+  pending: '⏳',
+  confirming: '🔄',
+  attesting: '🔐',
+  completed: '✅',
+  failed: '❌'
+};
+
+/**
+ * Markdown block describing a decoded depositToRemote call, with anything suspicious called out
+ */
+function describeDeposit(deposit: DepositSummary): string {
+  const { stacks } = getNetworkProfile();
+  const hookBytes = (deposit.hookData.length - 2) / 2;
+  const lines = [
+    `📦 **Deposit details**`,
+    `• Amount: ${deposit.amount} USDC (${deposit.amountBaseUnits} base units)`,
+    `• From: ${deposit.sender}`,
+    `• To: ${deposit.stacksRecipient ?? deposit.remoteRecipient} (domain ${deposit.remoteDomain})`,
+    `• Max fee: ${deposit.maxFee} USDC`,
+    `• Hook data: ${hookBytes === 0 ? 'none' : `${deposit.hookData.slice(0, 18)}... (${hookBytes} bytes)`}`
+  ];
+
+  if (!deposit.stacksRecipient) {
+    lines.push(`⚠️ The recipient ${deposit.remoteRecipient} does not decode to a Stacks address`);
+  }
+  if (deposit.remoteDomain !== stacks.domain) {
+    lines.push(`⚠️ Remote domain ${deposit.remoteDomain} is not ${stacks.chainName} (domain ${stacks.domain})`);
+  }
+  if (deposit.transferredAmountBaseUnits !== undefined && deposit.transferredAmountBaseUnits !== deposit.amountBaseUnits) {
+    lines.push(`⚠️ The receipt shows ${deposit.transferredAmount} USDC moved into xReserve`);
+  }
+
+  return lines.join('\n') + '\n\n';
+}
+
+/**
+ * Markdown block describing a decoded usdcx-v1 burn, with anything suspicious called out
+ */
+function describeWithdrawal(withdrawal: WithdrawalSummary): string {
+  const { ethereum } = getNetworkProfile();
+  const lines = [
+    `📦 **Withdrawal details**`,
+    `• Amount: ${withdrawal.amount} USDCx (${withdrawal.amountBaseUnits} base units)`,
+    `• From: ${withdrawal.sender}`,
+    `• To: ${withdrawal.ethereumRecipient ?? withdrawal.paddedRecipient} (domain ${withdrawal.remoteDomain})`,
+    `• Fee paid: ${withdrawal.fee} STX`,
+    `• Post-conditions (${withdrawal.postConditionMode} mode): ` +
+      (withdrawal.postConditions.length === 0
+        ? 'none'
+        : withdrawal.postConditions
+            .map(pc => `${pc.principal} ${pc.condition.replace(/_/g, ' ')}${pc.amount ? ` ${pc.amount}` : ''}${pc.asset ? ` ${pc.asset}` : ''}`)
+            .join('; '))
+  ];
+
+  if (!withdrawal.ethereumRecipient) {
+    lines.push(`⚠️ The recipient ${withdrawal.paddedRecipient} is not a zero-padded Ethereum address`);
+  }
+  if (withdrawal.remoteDomain !== ethereum.domain) {
+    lines.push(`⚠️ Remote domain ${withdrawal.remoteDomain} is not ${ethereum.chainName} (domain ${ethereum.domain})`);
+  }
+
+  return lines.join('\n') + '\n\n';
+}
+
+/**
+ * Typical transfer time with its spread and what it is based on
+ */
+function describeTime(estimate: TransferTimeEstimate): string {
+  return `${estimate.normal} (${estimate.fast.replace('~', '')} to ${estimate.slow.replace('~', '')}, ` +
+         `${estimate.basis === 'history' ? `from ${estimate.samples} recent transfers` : 'default timings'})`;
+}
+
+/**
+ * Markdown block breaking down what a transfer costs and what arrives
+ */
+function describeQuote(quote: BridgeQuote): string {
+  const [from, to] = quote.direction === 'deposit' ? ['USDC', 'USDCx'] : ['USDCx', 'USDC'];
+  const { networkFee } = quote;
+  const lines = [
+    `💸 **Fee quote**`,
+    `• You send: ${quote.amount} ${from}`,
+    `• Bridge fee: up to ${quote.bridgeMaxFee} ${from}` +
+      (quote.direction === 'deposit' ? ` (maxFee ${quote.bridgeMaxFeeBaseUnits} base units)` : ''),
+    `• You receive: at least ${quote.netAmount} ${to}`,
+    `• Network fee: ~${networkFee.expected} ${networkFee.asset} (up to ${networkFee.max} ${networkFee.asset})`
+  ];
+
+  if (networkFee.gas) {
+    lines.push(
+      `• Gas: ${networkFee.gas.approval !== '0' ? `approve ${networkFee.gas.approval} + ` : ''}deposit ${networkFee.gas.deposit} ` +
+      `at ${networkFee.gas.maxFeePerGasGwei} gwei max (${networkFee.gas.maxPriorityFeePerGasGwei} gwei priority)`
+    );
+  }
+  if (networkFee.tiers) {
+    lines.push(`• STX fee tiers: ${formatAmount(BigInt(networkFee.tiers.low))} / ${formatAmount(BigInt(networkFee.tiers.medium))} / ${formatAmount(BigInt(networkFee.tiers.high))} STX`);
+  }
+  if (!networkFee.estimated) {
+    lines.push(quote.direction === 'deposit'
+      ? `⚠️ The deposit gas could not be estimated for this sender and recipient; this is a default`
+      : `⚠️ The Stacks node could not estimate fees; this is a default`);
+  }
+
+  return lines.join('\n') + '\n\n';
+}
+
+/**
+ * Markdown block with the pre-flight outcome; empty when every check passed
+ */
+function describePreflight(preflight: PreflightReport): string {
+  const lines = preflight.issues.map(issue => `${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.message}`);
+  if (preflight.simulation === 'unavailable') {
+    lines.push(`⚠️ The transaction could not be simulated; balances were checked`);
+  } else if (preflight.simulation === 'not_supported') {
+    lines.push(`ℹ️ The burn was not simulated (Stacks cannot dry-run it); balances and the paused flag were checked`);
+  }
+  return lines.length > 0 ? `🛫 **Pre-flight checks**\n${lines.join('\n')}\n\n` : '';
+}
+
+/**
+ * Indented lines saying whether one side can send a transfer, and what it is short of
+ */
+function describeAffordability(kind: 'Deposit' | 'Withdrawal', affordability: Affordability): string {
+  const lines = [
+    `   ${affordability.canAfford ? '✅' : '❌'} ${kind} of ${affordability.amount}: ` +
+    `${affordability.canAfford ? 'affordable' : 'not affordable'} (` +
+    (affordability.networkFee
+      ? `network fee ~${affordability.networkFee.amount} ${affordability.networkFee.asset}`
+      : `network fee unavailable: ${affordability.networkFeeError ?? 'could not be estimated'}`) +
+    `${affordability.requiresApproval ? ', approval needed first' : ''})`,
+    ...affordability.shortfalls.map(shortfall => `      • ${shortfall}`)
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Line describing the allowance an approval would grant, with a warning when it is unlimited
+ */
+function describeApproval(approval: ApprovalTransaction): string {
+  return approval.unlimited
+    ? `⚠️ **Unlimited approval**: xReserve will be able to spend all of your USDC, now and later, until you revoke it with manageAllowance\n`
+    : `🔐 Approval: ${formatAmount(BigInt(approval.amount))} USDC for xReserve\n`;
+}
+
+// TOOL 1: Prepare USDC deposit to Stacks
+const prepareDeposit = defineTool({
+  name: 'prepareDeposit',
+  description: 'Prepare transaction to bridge USDC from Ethereum to Stacks as USDCx',
+  inputSchema: z.object({
+    amount: amountSchema('Amount of USDC to bridge (e.g., "10.5")', () => getNetworkProfile().limits.minDeposit, 'USDC'),
+    stacksRecipient: stacksAddressSchema('Stacks address to receive USDCx (starts with ST)'),
+    userEthereumAddress: ethereumAddressSchema('User\'s Ethereum address (for allowance checking)'),
+    usePermit: z.boolean().optional().describe('Offer a signed EIP-2612 permit instead of a separate approve transaction when supported (default true); exact approvals only'),
+    approval: z.enum(['exact', 'capped', 'unlimited']).optional()
+      .describe('Allowance to grant when an approval is needed: exactly the amount (default), approvalCap, or unlimited'),
+    approvalCap: amountSchema('Allowance for the capped strategy, covering this and later deposits (e.g., "500")', () => 1n, 'USDC').optional()
+  }).superRefine(({ amount, approval, approvalCap }, ctx) => {
+    if (approval === 'capped' && approvalCap === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['approvalCap'], message: 'Required for the capped approval strategy' });
+    } else if (approval !== 'capped' && approvalCap !== undefined) {
+      ctx.addIssue({ code: 'custom', path: ['approvalCap'], message: 'Only used with approval "capped"' });
+    } else if (approvalCap !== undefined && approvalCap < amount) {
+      ctx.addIssue({ code: 'custom', path: ['approvalCap'], message: `Must cover the ${formatAmount(amount)} USDC deposit` });
+    }
+  }),
+  widget: 'deposit',
+  async handler({ amount, stacksRecipient, userEthereumAddress, usePermit, approval = 'exact', approvalCap }) {
+    const strategy: ApprovalStrategy = approval === 'capped' ? { kind: 'capped', cap: approvalCap! } : { kind: approval };
+    const [{ txData, fees }, time] = await Promise.all([
+      prepareDepositTransaction(amount, stacksRecipient, userEthereumAddress, { usePermit, approval: strategy }),
+      estimateTransferTime('deposit')
+    ]);
+
+    const preflight = await preflightDeposit(amount, stacksRecipient, userEthereumAddress, fees);
+    if (!preflight.ok) {
+      throw new PreflightError(preflight);
+    }
+
+    const transfer = recordPreparedTransfer({
+      direction: 'deposit',
+      amountBaseUnits: amount.toString(),
+      sender: userEthereumAddress,
+      recipient: stacksRecipient,
+      calldataHash: keccak256(txData.data)
+    });
+
+    const quote = depositQuote(amount, fees, time);
+    const intent = createIntent({
+      direction: 'deposit',
+      sender: userEthereumAddress,
+      recipient: stacksRecipient,
+      amount: quote.amount,
+      amountBaseUnits: quote.amountBaseUnits,
+      eta: quote.estimatedTime,
+      transactionData: txData,
+      transferId: transfer.id
+    });
+
+    return { txData, quote, preflight, transferId: transfer.id, intent };
+  },
+  render({ txData, quote, preflight, transferId, intent }, { amount, stacksRecipient, userEthereumAddress }, context) {
+    const display = formatAmount(amount);
+    // The link names a server-side intent, so the calldata cannot be edited in the URL
+    const url = widgetUrl(context, 'deposit.html', { intent: intent.id });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Prepared deposit of ${display} USDC to ${stacksRecipient.slice(0, 8)}...\n\n` +
+              `💰 Amount: ${display} USDC → ${quote.netAmount} USDCx\n` +
+              `⏰ Estimated time: ${describeTime(quote.timeEstimate)}\n` +
+              `🔧 ${txData.permit ? 'Approval by signature (permit), no separate approve transaction'
+                : txData.requiresApproval ? 'Approval required first' : 'Ready to bridge'}\n` +
+              (txData.approvalTx ? describeApproval(txData.approvalTx) : '') + '\n' +
+              describeQuote(quote) +
+              describePreflight(preflight) +
+              (url
+                ? `Click the link below to open the bridge widget and connect your MetaMask wallet:\n\n` +
+                  `[🌉 Open Bridge Widget](${url})`
+                : `Connect your MetaMask wallet in the widget below to sign and execute the transaction.`)
+      }],
+      _meta: {
+        transactionData: txData,
+        bridgeType: 'deposit',
+        fromChain: 'ethereum',
+        toChain: 'stacks',
+        amount: display,
+        amountBaseUnits: amount.toString(),
+        recipient: stacksRecipient,
+        quote,
+        preflight,
+        transferId,
+        intentId: intent.id,
+        intentExpiresAt: intent.expiresAt,
+        ...(url && { widget: { url, type: 'deposit' } })
+      },
+      // Props of the deposit widget the host renders
+      structuredContent: {
+        amount: display,
+        stacksRecipient,
+        sender: userEthereumAddress,
+        eta: quote.estimatedTime,
+        network: toNetworkSummary(getNetworkProfile()),
+        transactionData: txData,
+        transferId
+      }
+    };
+  }
+});
+
+// TOOL 2: Prepare USDCx withdrawal to Ethereum
+const prepareWithdrawal = defineTool({
+  name: 'prepareWithdrawal',
+  description: 'Prepare transaction to withdraw USDCx from Stacks to Ethereum as USDC',
+  inputSchema: z.object({
+    amount: amountSchema('Amount of USDCx to withdraw (minimum 4.80)', () => getNetworkProfile().limits.minWithdrawal, 'USDCx'),
+    ethereumRecipient: ethereumAddressSchema('Ethereum address to receive USDC'),
+    stacksAddress: stacksAddressSchema('Stacks address initiating the withdrawal')
+  }),
+  widget: 'withdrawal',
+  async handler({ amount, ethereumRecipient, stacksAddress }) {
+    const [{ txData, fees }, time] = await Promise.all([
+      prepareWithdrawalTransaction(amount, ethereumRecipient, stacksAddress),
+      estimateTransferTime('withdrawal')
+    ]);
+
+    const preflight = await preflightWithdrawal(amount, stacksAddress, fees);
+    if (!preflight.ok) {
+      throw new PreflightError(preflight);
+    }
+
+    const transfer = recordPreparedTransfer({
+      direction: 'withdrawal',
+      amountBaseUnits: amount.toString(),
+      sender: stacksAddress,
+      recipient: ethereumRecipient,
+      calldataHash: burnCalldataHash(txData.functionArgs)
+    });
+
+    const quote = withdrawalQuote(amount, fees, time);
+    const intent = createIntent({
+      direction: 'withdrawal',
+      sender: stacksAddress,
+      recipient: ethereumRecipient,
+      amount: quote.amount,
+      amountBaseUnits: quote.amountBaseUnits,
+      eta: quote.estimatedTime,
+      transactionData: txData,
+      transferId: transfer.id
+    });
+
+    return { txData, quote, preflight, transferId: transfer.id, intent };
+  },
+  render({ txData, quote, preflight, transferId, intent }, { amount, ethereumRecipient, stacksAddress }, context) {
+    const display = formatAmount(amount);
+    // The link names a server-side intent, so the calldata cannot be edited in the URL
+    const url = widgetUrl(context, 'withdrawal.html', { intent: intent.id });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `✅ Prepared withdrawal of ${display} USDCx to ${ethereumRecipient.slice(0, 8)}...\n\n` +
+              `💰 Amount: ${display} USDCx → ${quote.netAmount} USDC\n` +
+              `⏰ Estimated time: ${describeTime(quote.timeEstimate)}\n` +
+              `📝 Estimated fee: ${txData.estimatedFee}\n\n` +
+              describeQuote(quote) +
+              describePreflight(preflight) +
+              (url
+                ? `Click the link below to open the bridge widget and connect your Leather wallet:\n\n` +
+                  `[🌉 Open Bridge Widget](${url})`
+                : `Connect your Leather wallet in the widget below to sign and execute the transaction.`)
+      }],
+      _meta: {
+        transactionData: txData,
+        bridgeType: 'withdrawal',
+        fromChain: 'stacks',
+        toChain: 'ethereum',
+        amount: display,
+        amountBaseUnits: amount.toString(),
+        recipient: ethereumRecipient,
+        quote,
+        preflight,
+        transferId,
+        intentId: intent.id,
+        intentExpiresAt: intent.expiresAt,
+        ...(url && { widget: { url, type: 'withdrawal' } })
+      },
+      // Props of the withdrawal widget the host renders
+      structuredContent: {
+        amount: display,
+        ethereumRecipient,
+        sender: stacksAddress,
+        eta: quote.estimatedTime,
+        network: toNetworkSummary(getNetworkProfile()),
+        transactionData: txData,
+        transferId
+      }
+    };
+  }
+});
+
+// Fee quote for either direction, without preparing a transfer
+const quoteBridgeTool = defineTool({
+  name: 'quoteBridge',
+  description: 'Quote the network fees, xReserve maxFee and net amount received for a deposit or withdrawal before preparing it',
+  inputSchema: z.object({
+    direction: z.enum(['deposit', 'withdrawal']).describe('deposit (USDC on Ethereum → USDCx on Stacks) or withdrawal (USDCx → USDC)'),
+    // USDC or USDCx depending on direction, so the minimum is checked below
+    amount: decimalAmountSchema('Amount to bridge (e.g., "10.5")'),
+    sender: bridgeAddressSchema('Address that will sign the source transaction (optional; improves the deposit gas estimate)').optional(),
+    recipient: bridgeAddressSchema('Destination address (optional)').optional()
+  }).superRefine(({ direction, amount, sender, recipient }, ctx) => {
+    const { limits } = getNetworkProfile();
+    const [minimum, token] = direction === 'deposit' ? [limits.minDeposit, 'USDC'] : [limits.minWithdrawal, 'USDCx'];
+    if (amount < minimum) {
+      ctx.addIssue({ code: 'custom', path: ['amount'], message: `Minimum is ${formatAmount(minimum)} ${token}` });
+    }
+
+    const ethereumSide = direction === 'deposit' ? sender : recipient;
+    const stacksSide = direction === 'deposit' ? recipient : sender;
+    if (ethereumSide && !ethereumSide.startsWith('0x')) {
+      ctx.addIssue({ code: 'custom', path: [direction === 'deposit' ? 'sender' : 'recipient'], message: `Must be an Ethereum address for a ${direction}` });
+    }
+    if (stacksSide?.startsWith('0x')) {
+      ctx.addIssue({ code: 'custom', path: [direction === 'deposit' ? 'recipient' : 'sender'], message: `Must be a Stacks address for a ${direction}` });
+    }
+  }),
+  async handler(input) {
+    return quoteBridge(input);
+  },
+  render(quote) {
+    const [from, to] = quote.direction === 'deposit' ? ['Ethereum', 'Stacks'] : ['Stacks', 'Ethereum'];
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🧾 **Quote: ${quote.direction} ${quote.amount} (${from} → ${to})**\n\n` +
+              describeQuote(quote) +
+              `⏰ Estimated time: ${describeTime(quote.timeEstimate)}\n` +
+              `🕒 Quoted at ${quote.quotedAt}; fees move with network conditions`
+      }],
+      _meta: { quote }
+    };
+  }
+});
+
+// TOOL 3: Check bridge transaction status
+const checkStatus = defineTool({
+  name: 'checkStatus',
+  description: 'Check the status of a bridge transfer from its source transaction, including the destination chain mint or release once it lands',
+  inputSchema: checkStatusSchema,
+  widget: 'status',
+  async handler({ txHash, chain }) {
+    return trackTransfer(txHash, chain);
+  },
+  render(status, { txHash, chain }, context) {
+    const statusEmoji = STATE_EMOJI[status.state];
+
+    // The page checks the status itself, so the link carries only the transaction
+    const url = widgetUrl(context, 'status.html', { txHash, chain });
+
+    const { destination } = status;
+    const destinationText = destination
+      ? `🎯 Delivered ${destination.amount} ${destination.chain === 'stacks' ? 'USDCx' : 'USDC'} on ${getNetworkProfile()[destination.chain].chainName}: ` +
+        `[${destination.txId.slice(0, 12)}...${destination.txId.slice(-8)}](${destination.explorerUrl})\n`
+      : '';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${statusEmoji} **Transaction Status: ${status.state.toUpperCase()}**\n\n` +
+              `🔗 Transaction: ${txHash.slice(0, 12)}...${txHash.slice(-8)}\n` +
+              `⛓️ Chain: ${getNetworkProfile()[chain].chainName}\n` +
+              `✅ Confirmations: ${status.confirmations}${status.requiredConfirmations ? ` of ${status.requiredConfirmations}` : ''}\n` +
+              `${status.inclusion ? `🧱 Block: ${status.inclusion.blockNumber}${status.finality ? ` (${status.finality})` : ''}\n` : ''}` +
+              `${status.reorg ? `⚠️ Reorg detected: previously included in block ${status.reorg.blockNumber} (${status.reorg.blockHash.slice(0, 12)}...)\n` : ''}` +
+              `🌐 [View on Explorer](${status.explorerUrl})\n` +
+              destinationText + '\n' +
+              (status.deposit ? describeDeposit(status.deposit) : '') +
+              (status.withdrawal ? describeWithdrawal(status.withdrawal) : '') +
+              `${status.eta ? `⏰ ETA: ${status.eta}` : ''}` +
+              `${status.errorMessage ? `❌ Error: ${status.errorMessage}` : ''}` +
+              `${status.replacedBy ? `\n🔁 Replacement: [${status.replacedBy.txId.slice(0, 12)}...${status.replacedBy.txId.slice(-8)}](${status.replacedBy.explorerUrl})` : ''}` +
+              `${status.remediation ? `\n💡 ${status.remediation}` : ''}` +
+              `${url ? `\n\n[📊 Open Status Widget](${url})` : ''}`
+      }],
+      _meta: {
+        transactionHash: txHash,
+        chain,
+        ...(status.transferId && { transferId: status.transferId }),
+        status: status.state,
+        confirmations: status.confirmations,
+        ...(status.requiredConfirmations && { requiredConfirmations: status.requiredConfirmations }),
+        explorerUrl: status.explorerUrl,
+        ...(status.inclusion && { inclusion: status.inclusion }),
+        ...(status.finality && { finality: status.finality }),
+        ...(status.reorg && { reorg: status.reorg }),
+        ...(status.txStatus && { txStatus: status.txStatus }),
+        ...(status.anchored !== undefined && { anchored: status.anchored }),
+        ...(status.remediation && { remediation: status.remediation }),
+        ...(status.replacedBy && { replacedBy: status.replacedBy }),
+        ...(status.deposit && { deposit: status.deposit }),
+        ...(status.withdrawal && { withdrawal: status.withdrawal }),
+        ...(destination && { destination }),
+        ...(url && { widget: { url, type: 'status' } })
+      },
+      // Props of the status widget; it reads `status` again each time it polls through the host
+      structuredContent: {
+        txHash,
+        chain,
+        network: toNetworkSummary(getNetworkProfile()),
+        status: { ...status }
+      }
+    };
+  }
+});
+
+// TOOL 4: Get wallet balances on both sides of the bridge
+const getBalancesTool = defineTool({
+  name: 'getBalances',
+  description: 'Get ETH, USDC and xReserve allowance on Ethereum and STX and USDCx on Stacks, and whether each side can afford a bridge of a given amount',
+  inputSchema: z.object({
+    ethereumAddress: ethereumAddressSchema('Ethereum address (optional)').optional(),
+    stacksAddress: stacksAddressSchema('Stacks address (optional)').optional(),
+    amount: amountSchema('Amount to check affordability for (optional, e.g., "10.5")', () => 1n, 'USDC').optional()
+  }),
+  async handler(input) {
+    return getBalances(input);
+  },
+  render(report, { ethereumAddress, stacksAddress }) {
+    const { ethereum, stacks } = report;
+    const failed = [ethereum, stacks].filter(account => account && isAccountError(account)).length;
+
+    let text = `💰 **Your USDCx Bridge Balances**\n\n`;
+    if (ethereum) {
+      text += `🔵 **Ethereum** (${ethereum.address.slice(0, 8)}...${ethereum.address.slice(-6)})\n`;
+      text += isAccountError(ethereum)
+        ? `   ❌ Could not read balances: ${ethereum.error}\n\n`
+        : `   USDC: ${ethereum.usdc.amount}\n` +
+          `   ETH: ${ethereum.eth.amount}\n` +
+          `   xReserve allowance: ${ethereum.allowance.amount} USDC\n` +
+          (ethereum.affordability ? describeAffordability('Deposit', ethereum.affordability) : '') + '\n';
+    }
+    if (stacks) {
+      text += `🟠 **Stacks** (${stacks.address.slice(0, 8)}...${stacks.address.slice(-6)})\n`;
+      text += isAccountError(stacks)
+        ? `   ❌ Could not read balances: ${stacks.error}\n`
+        : `   USDCx: ${stacks.usdcx.amount}\n` +
+          `   STX (unlocked): ${stacks.stx.amount}\n` +
+          (stacks.affordability ? describeAffordability('Withdrawal', stacks.affordability) : '');
+    }
+    if (!ethereumAddress && !stacksAddress) {
+      text += '⚠️ No addresses provided';
+    }
+
+    return {
+      content: [{ type: 'text', text: text.trimEnd() }],
+      // Partial results are still useful; only a report with nothing readable is an error
+      ...(failed > 0 && failed === Number(!!ethereum) + Number(!!stacks) && { isError: true }),
+      _meta: {
+        balances: report,
+        ethereumAddress,
+        stacksAddress
+      }
+    };
+  }
+});
+
+// Read, revoke or adjust the USDC allowance granted to xReserve
+const manageAllowanceTool = defineTool({
+  name: 'manageAllowance',
+  description: 'Show how much USDC the xReserve contract may spend for an address, or prepare a transaction that revokes or changes that allowance',
+  inputSchema: z.object({
+    ethereumAddress: ethereumAddressSchema('Ethereum address that owns the USDC'),
+    action: z.enum(['status', 'revoke', 'set']).optional()
+      .describe('status (default) reports the allowance; revoke sets it to 0; set changes it to amount'),
+    amount: amountSchema('New allowance for the set action (e.g., "100")', () => 1n, 'USDC').optional()
+  }).superRefine(({ action, amount }, ctx) => {
+    if (action === 'set' && amount === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['amount'], message: 'Required for the set action' });
+    } else if (action !== 'set' && amount !== undefined) {
+      ctx.addIssue({ code: 'custom', path: ['amount'], message: 'Only used with action "set"; use revoke for 0' });
+    }
+  }),
+  widget: 'deposit',
+  async handler({ ethereumAddress, action = 'status', amount }) {
+    const report = await manageAllowance(ethereumAddress, action, amount);
+    const { change } = report;
+
+    // Like a transfer, a change is linked as a server-side intent, so its calldata never travels in the URL
+    const intent = change && createIntent({
+      direction: 'allowance',
+      sender: ethereumAddress,
+      recipient: report.spender,
+      amount: change.unlimited ? 'unlimited' : formatAmount(BigInt(change.amount)),
+      amountBaseUnits: change.amount,
+      transactionData: change
+    });
+
+    return { report, intent };
+  },
+  render({ report, intent }, { action = 'status' }, context) {
+    const { change } = report;
+    const url = intent && widgetUrl(context, 'deposit.html', { intent: intent.id });
+    const target = change ? (change.unlimited ? 'unlimited' : `${formatAmount(BigInt(change.amount))} USDC`) : '';
+
+    let text = `🔐 **xReserve Allowance**\n\n` +
+               `👤 Owner: ${report.owner.slice(0, 8)}...${report.owner.slice(-6)}\n` +
+               `✅ Allowance: ${report.allowance}${report.unlimited ? '' : ' USDC'}\n` +
+               `💰 Balance: ${report.balance} USDC\n`;
+    if (report.unlimited) {
+      text += `⚠️ xReserve can spend all of this address's USDC; revoke it if you no longer bridge\n`;
+    }
+    if (change) {
+      text += `\n🔧 Prepared ${change.action === 'revoke' ? 'a revoke (allowance → 0)' : `an approval setting the allowance to ${target}`}\n` +
+              (url
+                ? `\n[🦊 Sign in MetaMask](${url})`
+                : `\nSign the approve call to ${report.token} in your wallet.`);
+    } else if (action !== 'status') {
+      text += `\nℹ️ The allowance already has that value; no transaction needed`;
+    }
+
+    return {
+      content: [{ type: 'text', text: text.trimEnd() }],
+      _meta: {
+        allowance: report,
+        ...(change && { transactionData: change }),
+        ...(url && { widget: { url, type: 'allowance' } })
+      },
+      // The deposit widget shows the allowance, and signs the change when there is one
+      structuredContent: {
+        allowance: { ...report },
+        network: toNetworkSummary(getNetworkProfile())
+      }
+    };
+  }
+});
+
+// TOOL 5: Bridge contract health check
+const healthCheck = defineTool({
+  name: 'healthCheck',
+  description: 'Check if USDCx bridge contracts are operational',
+  inputSchema: z.object({}),
+  async handler() {
+    const [ethereum, stacks] = await Promise.all([
+      checkContractHealth(),
+      checkStacksContractHealth()
+    ]);
+
+    return { ethereum, stacks, overall: ethereum.healthy && stacks.healthy };
+  },
+  render(health) {
+    return {
+      content: [{
+        type: 'text',
+        text: `🏥 **USDCx Bridge Health Check**\n\n` +
+              `🔵 **Ethereum Contracts**: ${health.ethereum.healthy ? '✅ Healthy' : `❌ Error: ${health.ethereum.error}`}\n` +
+              `🟠 **Stacks Contracts**: ${health.stacks.healthy ? '✅ Healthy' : `❌ Error: ${health.stacks.error}`}\n\n` +
+              `**Overall Status**: ${health.overall ? '✅ All systems operational' : '⚠️ Some issues detected'}`
+      }],
+      _meta: health
+    };
+  }
+});
+
+// TOOL 6: Describe the active network profile
+const getNetworkInfo = defineTool({
+  name: 'getNetworkInfo',
+  description: 'Describe the networks, contracts and limits this bridge server is configured for',
+  inputSchema: z.object({}),
+  async handler() {
+    return getNetworkProfile();
+  },
+  render(profile) {
+    const { ethereum, stacks, limits } = profile;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🌐 **USDCx Bridge Network: ${profile.name.toUpperCase()}**\n\n` +
+              `🔵 **${ethereum.chainName}** (chain ID ${ethereum.chain.id}, domain ${ethereum.domain})\n` +
+              `   RPC: ${new URL(ethereum.rpcUrl).host}\n` +
+              `   xReserve: ${ethereum.xreserveContract}\n` +
+              `   USDC: ${ethereum.usdcContract}\n` +
+              `   Confirmations required: ${ethereum.requiredConfirmations}\n\n` +
+              `🟠 **${stacks.chainName}** (domain ${stacks.domain})\n` +
+              `   API: ${new URL(stacks.apiUrl).host}\n` +
+              `   Bridge contract: ${stacks.usdcxContract}\n` +
+              `   USDCx token: ${stacks.usdcxTokenContract}::${stacks.usdcxTokenName}\n` +
+              `   Confirmations required: ${stacks.requiredConfirmations}\n\n` +
+              `📏 **Limits**: minimum deposit ${formatAmount(limits.minDeposit)} USDC, ` +
+              `minimum withdrawal ${formatAmount(limits.minWithdrawal)} USDCx`
+      }],
+      _meta: {
+        network: toNetworkSummary(profile),
+        limits: {
+          minDeposit: limits.minDeposit.toString(),
+          minWithdrawal: limits.minWithdrawal.toString()
+        }
+      }
+    };
+  }
+});
+
+/**
+ * One markdown line per transfer in a history listing
+ */
+function describeTransferLine(transfer: TransferRecord): string {
+  const token = transfer.direction === 'deposit' ? 'USDC → USDCx' : 'USDCx → USDC';
+  const source = transfer.sourceTxId ? `${transfer.sourceTxId.slice(0, 10)}...${transfer.sourceTxId.slice(-6)}` : 'not submitted';
+  return `${STATE_EMOJI[transfer.state]} ${transfer.timestamp.slice(0, 16).replace('T', ' ')} · ` +
+         `${transfer.direction} ${transfer.amount} ${token} · ${transfer.state} · ${source}` +
+         `${transfer.recipient ? ` · to ${transfer.recipient}` : ''}`;
+}
+
+// TOOL 7: Bridge history for an address
+const listTransfersTool = defineTool({
+  name: 'listTransfers',
+  description: 'List past and in-flight bridge transfers for an Ethereum or Stacks address, rebuilt from on-chain deposits and burns',
+  inputSchema: z.object({
+    address: bridgeAddressSchema('Ethereum address (lists its deposits) or Stacks address (lists its withdrawals)'),
+    direction: z.enum(['deposit', 'withdrawal']).optional().describe('Only deposits (Ethereum → Stacks) or withdrawals (Stacks → Ethereum)'),
+    state: z.enum(['prepared', 'pending', 'confirming', 'attesting', 'completed', 'failed']).optional().describe('Only transfers in this state'),
+    from: dateSchema('Start of the date range, ISO 8601 (default: 30 days ago)').optional(),
+    to: dateSchema('End of the date range, ISO 8601 (default: now)', true).optional(),
+    limit: z.number().int().min(1).max(50).default(10).describe('Transfers per page (1-50)'),
+    offset: z.number().int().min(0).default(0).describe('Transfers to skip, for pagination')
+  }),
+  async handler({ address, direction, state, from, to, limit, offset }) {
+    return listTransfers({ address, direction, state, since: from, until: to, limit, offset });
+  },
+  render(page, { address, offset, limit }) {
+    const shortAddress = `${address.slice(0, 8)}...${address.slice(-6)}`;
+    const nextOffset = offset + page.transfers.length;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `📜 **Bridge history for ${shortAddress}** (since ${page.searchedFrom.slice(0, 10)})\n\n` +
+              (page.transfers.length === 0
+                ? 'No bridge transfers found.'
+                : page.transfers.map(transfer => `• ${describeTransferLine(transfer)}`).join('\n')) +
+              (page.hasMore ? `\n\n➡️ More transfers available: call again with offset ${nextOffset} (limit ${limit}).` : '')
+      }],
+      _meta: {
+        address,
+        transfers: page.transfers,
+        hasMore: page.hasMore,
+        ...(page.hasMore && { nextOffset }),
+        searchedFrom: page.searchedFrom
+      }
+    };
+  }
+});
+
+// TOOL 8: One transfer in detail
+const getTransferTool = defineTool({
+  name: 'getTransfer',
+  description: 'Get one bridge transfer by its journal transfer ID or source transaction hash, with live status',
+  inputSchema: z.object({
+    id: transferIdSchema('Transfer ID from prepareDeposit/prepareWithdrawal, or the source transaction hash'),
+    chain: chainSchema('Chain of the source transaction (needed for transfers not prepared by this server)').optional()
+  }),
+  async handler({ id, chain }) {
+    return getTransfer(id, chain);
+  },
+  render({ record, status }) {
+    return {
+      content: [{
+        type: 'text',
+        text: `${STATE_EMOJI[record.state]} **Transfer ${record.state.toUpperCase()}**\n\n` +
+              `${describeTransferLine(record)}\n` +
+              `${status ? `🌐 [View on Explorer](${status.explorerUrl})\n` : ''}` +
+              `${status?.destination ? `🎯 Destination: [${status.destination.txId.slice(0, 12)}...${status.destination.txId.slice(-8)}](${status.destination.explorerUrl})\n` : ''}` +
+              `${status?.remediation ? `💡 ${status.remediation}\n` : ''}` +
+              '\n' +
+              (status?.deposit ? describeDeposit(status.deposit) : '') +
+              (status?.withdrawal ? describeWithdrawal(status.withdrawal) : '') +
+              (record.state === 'prepared' ? 'This transfer was prepared but has not been seen on chain yet.' : '')
+      }],
+      _meta: {
+        transfer: record,
+        ...(status && { status })
+      }
+    };
+  }
+});
+
+// TOOL 9: Accounting export
+const exportTransfersTool = defineTool({
+  name: 'exportTransfers',
+  description: 'Export bridge transfers for a set of addresses over a date range as CSV or JSON, with exact base-unit amounts and fees',
+  inputSchema: exportTransfersSchema,
+  async handler({ addresses, from, to, format }) {
+    return exportTransfers({ addresses, since: from, until: to, format });
+  },
+  render(result, { addresses, from, to, format }, context) {
+    const query = new URLSearchParams({ address: addresses.join(','), format });
+    if (from !== undefined) query.set('from', new Date(from * 1000).toISOString());
+    if (to !== undefined) query.set('to', new Date(to * 1000).toISOString());
+    const downloadUrl = context.widgetBaseUrl && `${context.widgetBaseUrl}/export/transfers?${query.toString()}`;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `🧾 **Transfer export** (${result.rowCount} transfer${result.rowCount === 1 ? '' : 's'}, ${format.toUpperCase()}, schema v${EXPORT_SCHEMA_VERSION})\n\n` +
+              `📅 Covers ${result.coveredFrom.slice(0, 10)} to ${result.coveredTo.slice(0, 10)}\n\n` +
+              `${result.rowLimitReached ? '⚠️ The export hit the row limit; narrow the date range to get the rest.\n\n' : ''}` +
+              `${result.truncated && !result.rowLimitReached
+                ? `⚠️ On-chain history only reaches back to ${result.coveredFrom.slice(0, 10)}; earlier transfers are missing.\n\n`
+                : ''}` +
+              `${downloadUrl ? `[⬇️ Download ${result.filename}](${downloadUrl})\n\n` : ''}` +
+              '```' + format + '\n' + result.body + '\n```'
+      }],
+      _meta: {
+        format: result.format,
+        filename: result.filename,
+        rowCount: result.rowCount,
+        truncated: result.truncated,
+        coveredFrom: result.coveredFrom,
+        coveredTo: result.coveredTo,
+        schemaVersion: EXPORT_SCHEMA_VERSION,
+        ...(downloadUrl && { downloadUrl })
+      }
+    };
+  }
+});
+
+const tools: RegisteredTool[] = [
+  prepareDeposit,
+  prepareWithdrawal,
+  quoteBridgeTool,
+  checkStatus,
+  getBalancesTool,
+  manageAllowanceTool,
+  healthCheck,
+  getNetworkInfo,
+  listTransfersTool,
+  getTransferTool,
+  exportTransfersTool
+];
+
+/**
+ * Tool descriptors advertised through tools/list
+ */
+export function listTools(): Tool[] {
+  return tools.map(tool => {
+    const { $schema, ...inputSchema } = z.toJSONSchema(tool.inputSchema, { io: 'input' });
+    return {
+      name: tool.name,
+      description: tool.description,
+      inputSchema: inputSchema as Tool['inputSchema'],
+      ...(tool.widget && { _meta: widgetToolMeta(tool.widget) })
+    };
+  });
+}
+
+/**
+ * A prepare tool refusing a transfer that would fail, with the causes the user can fix
+ */
+function renderPreflightError(name: string, preflight: PreflightReport): CallToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: `🛑 **${name} refused: this transfer would fail**\n\n` +
+            preflight.issues.map(issue => `${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.message}`).join('\n') +
+            `\n\nNothing was sent to the wallet. Resolve the issues above and prepare the transfer again.`
+    }],
+    structuredContent: {
+      error: 'preflight_failed',
+      tool: name,
+      causes: preflight.issues.filter(issue => issue.severity === 'error').map(issue => issue.cause),
+      preflight
+    },
+    isError: true
+  };
+}
+
+/**
+ * Result returned when arguments fail schema validation, so the model can re-ask
+ */
+function renderValidationError(name: string, issues: FieldIssue[]): CallToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: `❌ **Invalid input for ${name}**\n\n` +
+            issues.map(issue => `• \`${issue.field}\`: ${issue.reason}`).join('\n') +
+            `\n\nPlease ask the user to correct these fields and try again.`
+    }],
+    structuredContent: {
+      error: 'invalid_arguments',
+      tool: name,
+      issues
+    },
+    isError: true
+  };
+}
+
+/**
+ * Run a tool by name and render its result
+ */
+export async function callTool(
+  name: string,
+  args: unknown,
+  context: ToolContext = {}
+): Promise<CallToolResult> {
+  try {
+    const tool = tools.find(t => t.name === name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    return await tool.call(args, context);
+  } catch (error) {
+    if (error instanceof PreflightError) {
+      return renderPreflightError(name, error.report);
+    }
+    console.error(`Error in tool ${name}:`, error);
+    return {
+      content: [{
+        type: 'text',
+        text: `❌ **Error**: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Register tools/list and tools/call handlers on an MCP server
+ */
+export function registerTools(server: Server, context: ToolContext = {}): void {
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: listTools()
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return callTool(name, args, context);
+  });
+}
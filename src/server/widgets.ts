@@ -0,0 +1,127 @@
+// Widget templates exposed as MCP resources for the ChatGPT Apps SDK
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  type ReadResourceResult,
+  type Resource
+} from '@modelcontextprotocol/sdk/types.js';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { ToolContext } from './tools.js';
+
+// Mime type the Apps SDK renders as a widget
+export const WIDGET_MIME_TYPE = 'text/html+skybridge';
+
+// Built pages and bundles (build-widgets.js output), next to the compiled server
+const WIDGETS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '../widgets');
+
+export type WidgetName = 'deposit' | 'withdrawal' | 'status';
+
+interface WidgetTemplate {
+  uri: string;
+  title: string;
+  description: string;
+  page: string;
+  script: string;
+}
+
+const WIDGETS: Record<WidgetName, WidgetTemplate> = {
+  deposit: {
+    uri: 'ui://widget/deposit.html',
+    title: 'USDC → USDCx deposit',
+    description: 'Signs a prepared deposit (or an allowance change) with MetaMask and tracks it to Stacks',
+    page: 'deposit.html',
+    script: 'deposit.js'
+  },
+  withdrawal: {
+    uri: 'ui://widget/withdrawal.html',
+    title: 'USDCx → USDC withdrawal',
+    description: 'Signs a prepared burn with Leather and tracks it to Ethereum',
+    page: 'withdrawal.html',
+    script: 'withdrawal.js'
+  },
+  status: {
+    uri: 'ui://widget/status.html',
+    title: 'Bridge transfer status',
+    description: 'Follows a transfer from its source transaction to the destination chain',
+    page: 'status.html',
+    script: 'status.js'
+  }
+};
+
+/**
+ * Tool descriptor metadata pointing the host at a widget template. The widget may call the
+ * tool itself (checkStatus is polled this way).
+ */
+export function widgetToolMeta(widget: WidgetName): Record<string, unknown> {
+  return {
+    'openai/outputTemplate': WIDGETS[widget].uri,
+    'openai/widgetAccessible': true
+  };
+}
+
+/**
+ * Widget page with its bundle inlined, since the host renders the template without our origin
+ */
+async function renderWidget(template: WidgetTemplate): Promise<string> {
+  const [html, script] = await Promise.all([
+    readFile(path.join(WIDGETS_DIR, template.page), 'utf8'),
+    readFile(path.join(WIDGETS_DIR, template.script), 'utf8')
+  ]).catch(() => {
+    throw new Error(`Widget ${template.page} is not built; run npm run build:widgets`);
+  });
+
+  const tag = `<script type="module" src="/widgets/${template.script}"></script>`;
+  if (!html.includes(tag)) {
+    throw new Error(`Widget ${template.page} does not load /widgets/${template.script}`);
+  }
+  return html.replace(tag, () => `<script type="module">${script.replace(/<\/script/gi, '<\\/script')}</script>`);
+}
+
+export function listWidgetResources(): Resource[] {
+  return Object.values(WIDGETS).map(template => ({
+    uri: template.uri,
+    name: template.title,
+    description: template.description,
+    mimeType: WIDGET_MIME_TYPE
+  }));
+}
+
+export async function readWidgetResource(uri: string, context: ToolContext = {}): Promise<ReadResourceResult> {
+  const template = Object.values(WIDGETS).find(widget => widget.uri === uri);
+  if (!template) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  return {
+    contents: [{
+      uri,
+      mimeType: WIDGET_MIME_TYPE,
+      text: await renderWidget(template),
+      _meta: {
+        'openai/widgetDescription': template.description,
+        'openai/widgetPrefersBorder': true,
+        // Outside the host bridge, widgets only talk to this server
+        'openai/widgetCSP': {
+          connect_domains: context.widgetBaseUrl ? [context.widgetBaseUrl] : [],
+          resource_domains: []
+        }
+      }
+    }]
+  };
+}
+
+/**
+ * Register the widget templates on an MCP server
+ */
+export function registerWidgets(server: Server, context: ToolContext = {}): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listWidgetResources()
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readWidgetResource(request.params.uri, context);
+  });
+}
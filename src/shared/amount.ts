@@ -0,0 +1,63 @@
+// Exact decimal amounts for USDC and USDCx (both use 6 decimals)
+// Shared by the server and the widgets, so this module must stay dependency-free
+
+export const TOKEN_DECIMALS = 6;
+
+const BASE = 10n ** BigInt(TOKEN_DECIMALS);
+
+/**
+ * Raised when a user-supplied amount cannot be represented exactly
+ */
+export class AmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AmountError';
+  }
+}
+
+/**
+ * Parse a decimal string such as "10.5" into base units (10500000n)
+ * Rejects signs, exponents, separators and more than 6 decimal places
+ */
+export function parseAmount(input: string): bigint {
+  const value = input.trim();
+
+  if (value === '') {
+    throw new AmountError('Amount is required');
+  }
+  if (value.startsWith('-')) {
+    throw new AmountError('Amount must not be negative');
+  }
+  if (/e/i.test(value)) {
+    throw new AmountError('Exponent notation is not supported; write the amount out in full');
+  }
+
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) {
+    throw new AmountError('Amount must be a plain decimal number such as "10.5"');
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > TOKEN_DECIMALS) {
+    throw new AmountError(`Amount has more than ${TOKEN_DECIMALS} decimal places`);
+  }
+
+  return BigInt(whole) * BASE + BigInt(fraction.padEnd(TOKEN_DECIMALS, '0'));
+}
+
+/**
+ * Format base units as a decimal string without rounding
+ * Trailing zeros are trimmed down to `minFractionDigits` (e.g. 10500000n -> "10.50")
+ */
+export function formatAmount(baseUnits: bigint, minFractionDigits = 2): string {
+  const negative = baseUnits < 0n;
+  const absolute = negative ? -baseUnits : baseUnits;
+
+  const whole = absolute / BASE;
+  let fraction = (absolute % BASE).toString().padStart(TOKEN_DECIMALS, '0');
+  while (fraction.length > minFractionDigits && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
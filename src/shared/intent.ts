@@ -0,0 +1,18 @@
+// Claiming a bridge intent: the prepared sender proves control of its address before the widget gets the transaction
+// Shared by the server and the widgets, so this module must stay dependency-free
+
+/**
+ * Body of POST /intents/:id/claim
+ */
+export interface IntentClaim {
+  signature: string; // hex
+  publicKey?: string; // hex; Stacks message signatures do not recover the signer's address on their own
+}
+
+/**
+ * Message the intent's sender signs (personal_sign on Ethereum, a Stacks message signature on Stacks)
+ * to open intent `id`. Signing it moves no funds.
+ */
+export function intentClaimMessage(id: string, sender: string): string {
+  return `USDCx Bridge\n\nOpen prepared transfer ${id} as ${sender}.\n\nThis signature moves no funds.`;
+}
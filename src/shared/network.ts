@@ -0,0 +1,30 @@
+// Public description of the active bridge network, passed from the server to the widgets
+// Shared by the server and the widgets, so this module must stay dependency-free
+
+export type NetworkName = 'mainnet' | 'testnet' | 'devnet';
+
+export interface NetworkSummary {
+  name: NetworkName;
+  ethereum: {
+    chainId: number;
+    chainName: string;
+    xreserveContract: string;
+    usdcContract: string;
+    domain: number;
+    explorerTxUrl: string;
+  };
+  stacks: {
+    network: NetworkName;
+    chainName: string;
+    usdcxContract: string;
+    domain: number;
+    explorerTxUrl: string;
+  };
+}
+
+/**
+ * Fill a `{txId}` explorer template with a transaction hash or txid
+ */
+export function explorerTxUrl(template: string, txId: string): string {
+  return template.replace('{txId}', txId);
+}
@@ -0,0 +1,68 @@
+// xReserve deposit entry points and the EIP-2612 permit the server asks the wallet to sign
+// Shared by the server and the widgets, so this module must stay dependency-free
+
+export const XRESERVE_ABI = [
+  {
+    name: 'depositToRemote',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'value', type: 'uint256' },
+      { name: 'remoteDomain', type: 'uint32' },
+      { name: 'remoteRecipient', type: 'bytes32' },
+      { name: 'localToken', type: 'address' },
+      { name: 'maxFee', type: 'uint256' },
+      { name: 'hookData', type: 'bytes' }
+    ],
+    outputs: []
+  },
+  {
+    // Same deposit, with the token pulled under a permit instead of a prior approval
+    name: 'depositToRemoteWithPermit',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'value', type: 'uint256' },
+      { name: 'remoteDomain', type: 'uint32' },
+      { name: 'remoteRecipient', type: 'bytes32' },
+      { name: 'localToken', type: 'address' },
+      { name: 'maxFee', type: 'uint256' },
+      { name: 'hookData', type: 'bytes' },
+      { name: 'permitDeadline', type: 'uint256' },
+      { name: 'permitSignature', type: 'bytes' }
+    ],
+    outputs: []
+  }
+] as const;
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+} as const;
+
+/**
+ * EIP-712 typed data for a USDC permit letting xReserve pull one deposit.
+ * Integers are decimal strings so the object survives JSON.
+ */
+export interface DepositPermit {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: `0x${string}`;
+  };
+  types: typeof PERMIT_TYPES;
+  primaryType: 'Permit';
+  message: {
+    owner: `0x${string}`;
+    spender: `0x${string}`;
+    value: string;
+    nonce: string;
+    deadline: string; // unix seconds; the signature is useless after this
+  };
+}
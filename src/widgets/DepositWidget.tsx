@@ -1,41 +1,324 @@
 // Deposit Widget: Bridge USDC from Ethereum to Stacks
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { useMetaMask } from './hooks/useMetaMask';
-import type { Address, Hex } from 'viem';
+import { useMetaMask, BatchFailedError } from './hooks/useMetaMask';
+import { useTransferStatus } from './hooks/useTransferStatus';
+import { useToolOutput } from './hooks/useToolOutput';
+import { useBridgeIntent, type PublicBridgeIntent } from './hooks/useBridgeIntent';
+import { decodeFunctionData, encodeFunctionData, maxUint256, type Address, type Hex } from 'viem';
+import { createAddress } from '@stacks/transactions';
+import { parseAmount, formatAmount } from '../shared/amount';
+import { explorerTxUrl, type NetworkSummary } from '../shared/network';
+import { XRESERVE_ABI, PERMIT_TYPES, type DepositPermit } from '../shared/xreserve';
+import { intentClaimMessage, type IntentClaim } from '../shared/intent';
 
 interface DepositWidgetProps {
   amount: string;
   stacksRecipient: string;
+  sender?: string; // the only account that may sign the prepared deposit
+  network?: NetworkSummary;
+  eta?: string; // typical transfer time from recent completions
   transactionData: {
     to: Address;
     data: Hex;
-    value: bigint;
-    estimatedGas: bigint;
+    value: Hex;
+    estimatedGas: Hex;
     requiresApproval: boolean;
-    approvalTx?: {
-      to: Address;
-      data: Hex;
-    };
+    approvalTx?: ApprovalTx;
+    permit?: DepositPermit;
   };
 }
 
-function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidgetProps) {
-  const { address, isConnected, isConnecting, error: walletError, connect, sendTransaction } = useMetaMask();
-  const [step, setStep] = useState<'connect' | 'approve' | 'deposit' | 'confirming' | 'success'>('connect');
+interface ApprovalTx {
+  to: Address;
+  data: Hex;
+  amount?: string; // base units of the allowance being set
+  unlimited?: boolean;
+}
+
+// Revoke or adjust prepared by manageAllowance
+interface AllowanceChange extends ApprovalTx {
+  action: 'revoke' | 'set';
+  amount: string;
+  unlimited: boolean;
+}
+
+// The parts of manageAllowance's report the widget shows
+interface AllowanceReport {
+  owner: string;
+  allowance: string; // formatted USDC, or "unlimited"
+  unlimited: boolean;
+  balance: string;
+  change?: AllowanceChange;
+}
+
+// structuredContent of manageAllowance; prepareDeposit's is the deposit widget's props
+interface AllowanceToolOutput {
+  allowance: AllowanceReport;
+  network: NetworkSummary;
+}
+
+// Wait before asking the wallet about an undecided batch again
+const BATCH_RETRY_MS = 15_000;
+
+// USDC's approve, the only call the widget signs besides deposits
+const APPROVE_ABI = [
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [{ name: 'success', type: 'bool' }]
+  }
+] as const;
+
+/**
+ * depositToRemoteWithPermit calldata: the prepared depositToRemote arguments plus the signed permit
+ */
+function encodePermitDeposit(depositData: Hex, permit: DepositPermit, signature: Hex): Hex {
+  const { args } = decodeFunctionData({ abi: XRESERVE_ABI, data: depositData });
+  if (args.length !== 6) {
+    throw new Error('Prepared transaction is not a depositToRemote call');
+  }
+  return encodeFunctionData({
+    abi: XRESERVE_ABI,
+    functionName: 'depositToRemoteWithPermit',
+    args: [...args, BigInt(permit.message.deadline), signature]
+  });
+}
+
+/**
+ * xReserve's bytes32 remoteRecipient for a Stacks address: 11 zero bytes, the version byte, then the hash160
+ */
+function stacksRecipientBytes32(address: string): string {
+  const { version, hash160 } = createAddress(address);
+  return `0x${'00'.repeat(11)}${version.toString(16).padStart(2, '0')}${hash160}`.toLowerCase();
+}
+
+/**
+ * Ways a prepared approve call differs from the allowance the widget shows: it must call the
+ * USDC contract and approve the xReserve contract for exactly `amount` (unlimited only when marked so)
+ */
+function approvalMismatches(approval: ApprovalTx, network: NetworkSummary): string[] {
+  let call;
+  try {
+    call = decodeFunctionData({ abi: APPROVE_ABI, data: approval.data });
+  } catch {
+    return ['The approval is not an ERC-20 approve call'];
+  }
+
+  const mismatches: string[] = [];
+  const [spender, value] = call.args;
+  if (approval.to.toLowerCase() !== network.ethereum.usdcContract.toLowerCase()) {
+    mismatches.push(`Its approval goes to ${approval.to} instead of the USDC contract`);
+  }
+  if (spender.toLowerCase() !== network.ethereum.xreserveContract.toLowerCase()) {
+    mismatches.push(`It lets ${spender} spend your USDC instead of the xReserve contract`);
+  }
+
+  // Same threshold as the server's isUnlimitedAllowance
+  const unlimited = value >= maxUint256 / 2n;
+  const approved = unlimited ? 'an unlimited allowance' : `${formatAmount(value)} USDC`;
+  if (approval.amount !== undefined && value.toString() !== approval.amount) {
+    mismatches.push(`It approves ${approved}, not the amount shown`);
+  } else if (approval.unlimited !== undefined && approval.unlimited !== unlimited) {
+    mismatches.push(`It approves ${approved}, not the ${approval.unlimited ? 'unlimited ' : ''}allowance shown`);
+  }
+  return mismatches;
+}
+
+/**
+ * Ways a prepared permit differs from the deposit the widget shows, by the same rules as an approval:
+ * it must be a USDC permit on this chain letting the xReserve contract pull exactly the deposit amount
+ */
+function permitMismatches(permit: DepositPermit, amount: string, network: NetworkSummary): string[] {
+  const mismatches: string[] = [];
+  if (permit.domain.verifyingContract.toLowerCase() !== network.ethereum.usdcContract.toLowerCase()) {
+    mismatches.push(`Its permit is for token ${permit.domain.verifyingContract} instead of USDC`);
+  }
+  if (permit.domain.chainId !== network.ethereum.chainId) {
+    mismatches.push(`Its permit is for chain ${permit.domain.chainId} instead of ${network.ethereum.chainName}`);
+  }
+  if (permit.message.spender.toLowerCase() !== network.ethereum.xreserveContract.toLowerCase()) {
+    mismatches.push(`Its permit lets ${permit.message.spender} spend your USDC instead of the xReserve contract`);
+  }
+
+  let value: bigint | null;
+  let expected: bigint | null;
+  try {
+    value = BigInt(permit.message.value);
+    expected = parseAmount(amount);
+  } catch {
+    value = expected = null;
+  }
+  if (value === null || value !== expected) {
+    mismatches.push(`Its permit approves ${value === null ? permit.message.value : `${formatAmount(value)} USDC`}, not ${amount} USDC`);
+  }
+  return mismatches;
+}
+
+/**
+ * Ways the prepared calldata differs from the amount and recipient the widget shows. Checked
+ * here rather than trusted, so a tampered or mismatched transfer is caught before signing.
+ */
+function depositMismatches(
+  transactionData: DepositWidgetProps['transactionData'],
+  amount: string,
+  stacksRecipient: string,
+  network?: NetworkSummary
+): string[] {
+  let call;
+  try {
+    call = decodeFunctionData({ abi: XRESERVE_ABI, data: transactionData.data });
+  } catch {
+    return ['The transaction is not an xReserve deposit'];
+  }
+
+  const mismatches: string[] = [];
+  const [value, remoteDomain, remoteRecipient, localToken] = call.args;
+  let expected: bigint | null;
+  try {
+    expected = parseAmount(amount);
+  } catch {
+    expected = null;
+  }
+  if (value !== expected) {
+    mismatches.push(`It deposits ${formatAmount(value)} USDC, not ${amount} USDC`);
+  }
+
+  let recipient: string | null;
+  try {
+    recipient = stacksRecipientBytes32(stacksRecipient);
+  } catch {
+    recipient = null;
+  }
+  if (remoteRecipient.toLowerCase() !== recipient) {
+    mismatches.push(`It pays a different Stacks address than ${stacksRecipient}`);
+  }
+
+  if (network) {
+    if (transactionData.to.toLowerCase() !== network.ethereum.xreserveContract.toLowerCase()) {
+      mismatches.push(`It calls ${transactionData.to} instead of the xReserve contract`);
+    }
+    if (remoteDomain !== network.stacks.domain) {
+      mismatches.push(`It targets domain ${remoteDomain} instead of Stacks (${network.stacks.domain})`);
+    }
+    if (localToken.toLowerCase() !== network.ethereum.usdcContract.toLowerCase()) {
+      mismatches.push(`It deposits token ${localToken} instead of USDC`);
+    }
+    if (transactionData.approvalTx) {
+      mismatches.push(...approvalMismatches(transactionData.approvalTx, network));
+    }
+    if (transactionData.permit) {
+      mismatches.push(...permitMismatches(transactionData.permit, amount, network));
+    }
+  }
+  return mismatches;
+}
+
+function DepositWidget({ amount, stacksRecipient, sender, network, eta = '~15 minutes', transactionData }: DepositWidgetProps) {
+  const {
+    address, isConnected, isConnecting, error: walletError, supportsAtomicBatch,
+    connect, sendTransaction, signTypedData, sendCalls, waitForCalls, waitForTransaction
+  } = useMetaMask(network?.ethereum.chainId);
+  const [step, setStep] = useState<'connect' | 'permit' | 'approve' | 'deposit' | 'confirming' | 'success' | 'failed'>('connect');
   const [txHash, setTxHash] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [approvalMining, setApprovalMining] = useState(false);
+  // txHash holds the approval until the deposit is sent, so only track it once confirming
+  const { status, error: statusError } = useTransferStatus(step === 'confirming' ? txHash : null, 'ethereum');
+
+  // Re-format through the exact amount parser so the display never drifts from base units
+  const displayAmount = useMemo(() => {
+    try {
+      return formatAmount(parseAmount(amount));
+    } catch {
+      return amount;
+    }
+  }, [amount]);
+
+  const explorerUrl = txHash && network ? explorerTxUrl(network.ethereum.explorerTxUrl, txHash) : null;
+
+  // Nothing can be signed while the calldata disagrees with what is shown, or from another account
+  const mismatches = useMemo(
+    () => depositMismatches(transactionData, amount, stacksRecipient, network),
+    [transactionData, amount, stacksRecipient, network]
+  );
+  const wrongAccount = !!sender && !!address && sender.toLowerCase() !== address.toLowerCase();
+  const blocked = mismatches.length > 0 || wrongAccount;
+
+  // A permit only works for the address it was prepared for, and only until its deadline
+  const { permit } = transactionData;
+  const permitUsable = !!permit && !!address &&
+    permit.message.owner.toLowerCase() === address.toLowerCase() &&
+    Number(permit.message.deadline) > Date.now() / 1000;
 
+  // Picks the first step on connecting, and falls back to an approval when the permit expires before it is
+  // signed. Later steps are left alone, so a deposit already sent keeps its tracking whatever the clock says.
   useEffect(() => {
-    if (isConnected) {
-      if (transactionData.requiresApproval) {
-        setStep('approve');
-      } else {
-        setStep('deposit');
+    if (!isConnected) return;
+
+    setStep(current => {
+      if (current === 'connect') {
+        return !transactionData.requiresApproval ? 'deposit' : permitUsable ? 'permit' : 'approve';
       }
+      return current === 'permit' && !permitUsable ? 'approve' : current;
+    });
+  }, [isConnected, transactionData.requiresApproval, permitUsable]);
+
+  useEffect(() => {
+    if (status?.state === 'completed') {
+      setStep('success');
+    } else if (status?.state === 'failed') {
+      setStep('failed');
+    }
+  }, [status?.state]);
+
+  const handlePermitDeposit = async () => {
+    if (!permit) return;
+
+    setLoading(true);
+    setError(null);
+
+    let signature: Hex;
+    try {
+      signature = await signTypedData({
+        domain: permit.domain,
+        types: PERMIT_TYPES,
+        primaryType: permit.primaryType,
+        message: {
+          ...permit.message,
+          value: BigInt(permit.message.value),
+          nonce: BigInt(permit.message.nonce),
+          deadline: BigInt(permit.message.deadline)
+        }
+      });
+    } catch (err) {
+      // Wallets without EIP-712 support (or a declined signature) still have the approval route
+      setError(`Permit not signed (${err instanceof Error ? err.message : 'unknown error'}). Approve USDC instead.`);
+      setStep('approve');
+      setLoading(false);
+      return;
     }
-  }, [isConnected, transactionData.requiresApproval]);
+
+    try {
+      const hash = await sendTransaction(
+        transactionData.to,
+        encodePermitDeposit(transactionData.data, permit, signature),
+        BigInt(transactionData.value)
+      );
+      setTxHash(hash);
+      setStep('confirming');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed');
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleApprove = async () => {
     if (!transactionData.approvalTx) return;
@@ -49,12 +332,59 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
         transactionData.approvalTx.data
       );
       setTxHash(hash);
+
+      // The deposit reverts until the approval is mined
+      setApprovalMining(true);
+      await waitForTransaction(hash);
       setStep('deposit');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Approval failed');
     } finally {
+      setApprovalMining(false);
+      setLoading(false);
+    }
+  };
+
+  // Approve and deposit as one atomic EIP-5792 batch: one confirmation, and no approval left behind if the deposit fails
+  const handleBatchDeposit = async () => {
+    if (!transactionData.approvalTx) return;
+
+    setLoading(true);
+    setError(null);
+
+    let id: string;
+    try {
+      id = await sendCalls([
+        { to: transactionData.approvalTx.to, data: transactionData.approvalTx.data },
+        { to: transactionData.to, data: transactionData.data, value: BigInt(transactionData.value) }
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed');
       setLoading(false);
+      return;
     }
+    setTxHash(null);
+    setStep('confirming');
+
+    // The wallet only reveals the transaction hash once the batch is included. Until the wallet says the
+    // batch failed it may still land, so a timeout keeps waiting instead of offering a second deposit.
+    for (;;) {
+      try {
+        const hashes = await waitForCalls(id);
+        setError(null);
+        setTxHash(hashes[hashes.length - 1] ?? null);
+        break;
+      } catch (err) {
+        if (err instanceof BatchFailedError) {
+          setError(err.message);
+          setStep('approve');
+          break;
+        }
+        setError('The batch has not landed yet and may still go through. Do not send the deposit again; still waiting for it.');
+        await new Promise(resolve => setTimeout(resolve, BATCH_RETRY_MS));
+      }
+    }
+    setLoading(false);
   };
 
   const handleDeposit = async () => {
@@ -65,13 +395,10 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
       const hash = await sendTransaction(
         transactionData.to,
         transactionData.data,
-        transactionData.value
+        BigInt(transactionData.value)
       );
       setTxHash(hash);
       setStep('confirming');
-      
-      // After a few seconds, show success
-      setTimeout(() => setStep('success'), 3000);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Transaction failed');
     } finally {
@@ -87,7 +414,7 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
         <div style={styles.info}>
           <div style={styles.infoRow}>
             <span style={styles.label}>Amount:</span>
-            <span style={styles.value}>{amount} USDC → {amount} USDCx</span>
+            <span style={styles.value}>{displayAmount} USDC → {displayAmount} USDCx</span>
           </div>
           <div style={styles.infoRow}>
             <span style={styles.label}>Destination:</span>
@@ -95,11 +422,11 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
           </div>
           <div style={styles.infoRow}>
             <span style={styles.label}>Network:</span>
-            <span style={styles.value}>Ethereum Sepolia → Stacks Testnet</span>
+            <span style={styles.value}>{network?.ethereum.chainName ?? 'Ethereum'} → {network?.stacks.chainName ?? 'Stacks'}</span>
           </div>
           <div style={styles.infoRow}>
             <span style={styles.label}>Time:</span>
-            <span style={styles.value}>~15 minutes</span>
+            <span style={styles.value}>{eta}</span>
           </div>
         </div>
 
@@ -111,6 +438,19 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
           <div style={styles.error}>{error}</div>
         )}
 
+        {mismatches.length > 0 && (
+          <div style={styles.error}>
+            <strong>⚠️ Do not sign: the transaction does not match this transfer</strong>
+            {mismatches.map(mismatch => <p key={mismatch}>{mismatch}</p>)}
+          </div>
+        )}
+
+        {wrongAccount && (
+          <div style={styles.error}>
+            This deposit was prepared for {sender!.slice(0, 6)}...{sender!.slice(-4)}. Switch to that account in MetaMask to sign it.
+          </div>
+        )}
+
         {step === 'connect' && (
           <button 
             onClick={connect} 
@@ -121,25 +461,75 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
           </button>
         )}
 
-        {step === 'approve' && (
+        {!blocked && step === 'permit' && (
           <div>
             <p style={styles.stepInfo}>
-              ⚠️ First, you need to approve USDC spending
+              ✍️ Sign a permit instead of a separate approval: one transaction, no approval gas
             </p>
             <button 
-              onClick={handleApprove} 
+              onClick={handlePermitDeposit} 
               disabled={loading}
               style={styles.button}
             >
-              {loading ? '⏳ Approving...' : '✅ Approve USDC'}
+              {loading ? '⏳ Bridging...' : '✍️ Sign & Bridge to Stacks'}
             </button>
+            {transactionData.approvalTx && (
+              <button
+                onClick={() => setStep('approve')}
+                disabled={loading}
+                style={styles.secondaryButton}
+              >
+                Use a separate approval instead
+              </button>
+            )}
           </div>
         )}
 
-        {step === 'deposit' && (
+        {!blocked && step === 'approve' && (
           <div>
             <p style={styles.stepInfo}>
-              ✅ Ready to bridge {amount} USDC
+              ⚠️ First, you need to approve USDC spending
+              {transactionData.approvalTx?.amount && !transactionData.approvalTx.unlimited &&
+                ` (${formatAmount(BigInt(transactionData.approvalTx.amount))} USDC)`}
+            </p>
+            {transactionData.approvalTx?.unlimited && (
+              <div style={styles.error}>
+                Unlimited approval: xReserve will be able to spend all of your USDC until you revoke it.
+              </div>
+            )}
+            {supportsAtomicBatch ? (
+              <>
+                <button
+                  onClick={handleBatchDeposit}
+                  disabled={loading}
+                  style={styles.button}
+                >
+                  {loading ? '⏳ Bridging...' : '🚀 Approve & Bridge in one step'}
+                </button>
+                <button
+                  onClick={handleApprove}
+                  disabled={loading}
+                  style={styles.secondaryButton}
+                >
+                  {approvalMining ? 'Waiting for the approval to confirm...' : 'Approve separately instead'}
+                </button>
+              </>
+            ) : (
+              <button 
+                onClick={handleApprove} 
+                disabled={loading}
+                style={styles.button}
+              >
+                {approvalMining ? '⏳ Waiting for confirmation...' : loading ? '⏳ Approving...' : '✅ Approve USDC'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {!blocked && step === 'deposit' && (
+          <div>
+            <p style={styles.stepInfo}>
+              ✅ Ready to bridge {displayAmount} USDC
             </p>
             <button 
               onClick={handleDeposit} 
@@ -153,32 +543,73 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
 
         {step === 'confirming' && (
           <div style={styles.success}>
-            <div style={styles.spinner}>⏳</div>
-            <p>Transaction submitted!</p>
-            {txHash && (
+            <div style={styles.spinner}>{status?.state === 'attesting' ? '🔐' : '⏳'}</div>
+            <p>
+              {!txHash ? 'Waiting for the batch to be included...'
+                : status?.state === 'confirming' ? `Confirming on Ethereum (${status.confirmations} confirmation${status.confirmations === 1 ? '' : 's'})`
+                : status?.state === 'attesting' ? 'Confirmed! Waiting for the attestation and the USDCx mint on Stacks'
+                : 'Transaction submitted! Waiting for it to be included...'}
+            </p>
+            {explorerUrl && (
               <a 
-                href={`https://sepolia.etherscan.io/tx/${txHash}`}
+                href={explorerUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 style={styles.link}
               >
-                View on Etherscan →
+                View on Explorer →
               </a>
             )}
             <p style={styles.note}>
-              Waiting for confirmations... Your USDCx will arrive on Stacks in ~15 minutes.
+              Your USDCx will arrive on Stacks in {status?.eta ?? eta}.
             </p>
+            {statusError && (
+              <p style={styles.note}>Could not refresh the status ({statusError}); retrying...</p>
+            )}
           </div>
         )}
 
         {step === 'success' && (
           <div style={styles.success}>
             <div style={styles.successIcon}>✅</div>
-            <h3>Bridge Initiated!</h3>
-            <p>Your {amount} USDC is being bridged to Stacks</p>
-            {txHash && (
+            <h3>Bridge Complete!</h3>
+            <p>
+              {status?.destination?.amount ?? displayAmount} USDCx arrived at {stacksRecipient.slice(0, 8)}... on {network?.stacks.chainName ?? 'Stacks'}
+            </p>
+            {explorerUrl && (
               <a 
-                href={`https://sepolia.etherscan.io/tx/${txHash}`}
+                href={explorerUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={styles.link}
+              >
+                View Deposit →
+              </a>
+            )}
+            {status?.destination && (
+              <a
+                href={status.destination.explorerUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={styles.link}
+              >
+                View Mint on Stacks →
+              </a>
+            )}
+          </div>
+        )}
+
+        {step === 'failed' && (
+          <div style={styles.success}>
+            <div style={styles.successIcon}>❌</div>
+            <h3>Deposit Failed</h3>
+            <p>{status?.errorMessage ?? 'The deposit transaction failed'}</p>
+            {status?.remediation && (
+              <p style={styles.note}>{status.remediation}</p>
+            )}
+            {explorerUrl && (
+              <a 
+                href={explorerUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 style={styles.link}
@@ -186,9 +617,6 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
                 View Transaction →
               </a>
             )}
-            <p style={styles.note}>
-              USDCx will arrive at {stacksRecipient.slice(0, 8)}... in approximately 15 minutes
-            </p>
           </div>
         )}
 
@@ -202,6 +630,291 @@ function DepositWidget({ amount, stacksRecipient, transactionData }: DepositWidg
   );
 }
 
+interface AllowanceWidgetProps {
+  change: AllowanceChange;
+  owner: string; // the only account that may sign the change
+  network: NetworkSummary;
+}
+
+/**
+ * Signs a revoke or allowance change prepared by manageAllowance, once its calldata is checked
+ * against the allowance shown and the connected account is the owner
+ */
+function AllowanceWidget({ change, owner, network }: AllowanceWidgetProps) {
+  const { address, isConnected, isConnecting, error: walletError, connect, sendTransaction } = useMetaMask(network.ethereum.chainId);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const explorerUrl = txHash ? explorerTxUrl(network.ethereum.explorerTxUrl, txHash) : null;
+  const target = useMemo(() => {
+    try {
+      return change.unlimited ? 'unlimited' : `${formatAmount(BigInt(change.amount))} USDC`;
+    } catch {
+      return change.amount;
+    }
+  }, [change.unlimited, change.amount]);
+
+  // Nothing can be signed while the calldata disagrees with what is shown, or from another account
+  const mismatches = useMemo(() => approvalMismatches(change, network), [change, network]);
+  const wrongAccount = !!address && address.toLowerCase() !== owner.toLowerCase();
+  const blocked = mismatches.length > 0 || wrongAccount;
+
+  const handleSubmit = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setTxHash(await sendTransaction(change.to, change.data));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transaction failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h2 style={styles.title}>🔐 {change.action === 'revoke' ? 'Revoke xReserve Allowance' : 'Change xReserve Allowance'}</h2>
+
+        <div style={styles.info}>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Owner:</span>
+            <span style={styles.value}>{owner.slice(0, 6)}...{owner.slice(-4)}</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>New allowance:</span>
+            <span style={styles.value}>{target}</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Network:</span>
+            <span style={styles.value}>{network.ethereum.chainName}</span>
+          </div>
+        </div>
+
+        {walletError && <div style={styles.error}>{walletError}</div>}
+        {error && <div style={styles.error}>{error}</div>}
+        {mismatches.length > 0 && (
+          <div style={styles.error}>
+            <strong>⚠️ Do not sign: the transaction does not match this allowance change</strong>
+            {mismatches.map(mismatch => <p key={mismatch}>{mismatch}</p>)}
+          </div>
+        )}
+        {wrongAccount && (
+          <div style={styles.error}>
+            This change was prepared for {owner.slice(0, 6)}...{owner.slice(-4)}. Switch to that account in MetaMask to sign it.
+          </div>
+        )}
+        {change.unlimited && !txHash && (
+          <div style={styles.error}>
+            Unlimited approval: xReserve will be able to spend all of your USDC until you revoke it.
+          </div>
+        )}
+
+        {!isConnected && (
+          <button onClick={connect} disabled={isConnecting} style={styles.button}>
+            {isConnecting ? 'Connecting...' : '🦊 Connect MetaMask'}
+          </button>
+        )}
+
+        {isConnected && !txHash && !blocked && (
+          <button onClick={handleSubmit} disabled={loading} style={styles.button}>
+            {loading ? '⏳ Submitting...' : change.action === 'revoke' ? '🚫 Revoke Allowance' : '✅ Set Allowance'}
+          </button>
+        )}
+
+        {txHash && (
+          <div style={styles.success}>
+            <div style={styles.successIcon}>✅</div>
+            <p>Allowance change submitted</p>
+            {explorerUrl && (
+              <a href={explorerUrl} target="_blank" rel="noopener noreferrer" style={styles.link}>
+                View on Explorer →
+              </a>
+            )}
+          </div>
+        )}
+
+        {isConnected && address && (
+          <div style={styles.footer}>
+            Connected: {address.slice(0, 6)}...{address.slice(-4)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * An allowance report with nothing to sign (a status check, or a change that was already in place)
+ */
+function AllowanceSummary({ report, network }: { report: AllowanceReport; network?: NetworkSummary }) {
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h2 style={styles.title}>🔐 xReserve Allowance</h2>
+
+        <div style={styles.info}>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Owner:</span>
+            <span style={styles.value}>{report.owner.slice(0, 6)}...{report.owner.slice(-4)}</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Allowance:</span>
+            <span style={styles.value}>{report.allowance}{report.unlimited ? '' : ' USDC'}</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Balance:</span>
+            <span style={styles.value}>{report.balance} USDC</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Network:</span>
+            <span style={styles.value}>{network?.ethereum.chainName ?? 'Ethereum'}</span>
+          </div>
+        </div>
+
+        {report.unlimited && (
+          <div style={styles.error}>
+            xReserve can spend all of this address's USDC. Revoke the allowance if you no longer bridge.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A hosted deposit or allowance link before its transaction is released: the connected account
+ * signs intentClaimMessage to prove it is the prepared sender, and only then gets the transaction
+ */
+function ClaimDeposit({ intent, claim }: { intent: PublicBridgeIntent; claim: (claim: IntentClaim) => Promise<void> }) {
+  const { address, isConnected, isConnecting, error: walletError, connect, signMessage } = useMetaMask(intent.network.ethereum.chainId);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const wrongAccount = !!address && address.toLowerCase() !== intent.sender.toLowerCase();
+  const allowance = intent.direction === 'allowance';
+
+  const handleClaim = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await claim({ signature: await signMessage(intentClaimMessage(intent.id, intent.sender)) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not open the ${allowance ? 'allowance change' : 'deposit'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h2 style={styles.title}>{allowance ? '🔐 Change xReserve Allowance' : '🌉 Bridge USDC to Stacks'}</h2>
+
+        <div style={styles.info}>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>{allowance ? 'New allowance:' : 'Amount:'}</span>
+            <span style={styles.value}>{intent.amount}{intent.amount === 'unlimited' ? '' : ' USDC'}</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>{allowance ? 'Owner:' : 'From:'}</span>
+            <span style={styles.value}>{intent.sender.slice(0, 6)}...{intent.sender.slice(-4)}</span>
+          </div>
+          {!allowance && (
+            <div style={styles.infoRow}>
+              <span style={styles.label}>To:</span>
+              <span style={styles.value}>{intent.recipient.slice(0, 8)}...{intent.recipient.slice(-4)}</span>
+            </div>
+          )}
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Network:</span>
+            <span style={styles.value}>
+              {allowance ? intent.network.ethereum.chainName : `${intent.network.ethereum.chainName} → ${intent.network.stacks.chainName}`}
+            </span>
+          </div>
+        </div>
+
+        {walletError && <div style={styles.error}>{walletError}</div>}
+        {error && <div style={styles.error}>{error}</div>}
+        {wrongAccount && (
+          <div style={styles.error}>
+            This {allowance ? 'change' : 'deposit'} was prepared for {intent.sender.slice(0, 6)}...{intent.sender.slice(-4)}. Switch to that account in MetaMask.
+          </div>
+        )}
+
+        {!isConnected && (
+          <button onClick={connect} disabled={isConnecting} style={styles.button}>
+            {isConnecting ? 'Connecting...' : '🦊 Connect MetaMask'}
+          </button>
+        )}
+
+        {isConnected && !wrongAccount && (
+          <>
+            <button onClick={handleClaim} disabled={loading} style={styles.button}>
+              {loading ? '⏳ Waiting for signature...' : `✍️ Sign to Open ${allowance ? 'Allowance Change' : 'Deposit'}`}
+            </button>
+            <p style={styles.note}>Signing proves you own the sending account. It moves no funds.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Inside ChatGPT the props come from the tool's structuredContent (prepareDeposit, or manageAllowance);
+ * hosted links load the prepared deposit or allowance change, and the network it was prepared for,
+ * from the serving origin's intent
+ */
+function DepositApp({ intentId }: { intentId: string | null }) {
+  const output = useToolOutput<DepositWidgetProps | AllowanceToolOutput>();
+  const { intent, claimed, error, claim } =
+    useBridgeIntent<DepositWidgetProps['transactionData'] | AllowanceChange>(window.openai ? null : intentId);
+
+  if (!window.openai) {
+    if (error || !intentId) {
+      return (
+        <div style={styles.container}>
+          <div style={styles.card}>
+            <div style={styles.error}>{error ?? 'This link does not name a prepared deposit'}</div>
+          </div>
+        </div>
+      );
+    }
+    if (!intent) {
+      return null;
+    }
+    if (!claimed) {
+      return <ClaimDeposit intent={intent} claim={claim} />;
+    }
+    if (claimed.direction === 'allowance') {
+      return <AllowanceWidget change={claimed.transactionData as AllowanceChange} owner={claimed.sender} network={claimed.network} />;
+    }
+    return (
+      <DepositWidget
+        amount={claimed.amount}
+        stacksRecipient={claimed.recipient}
+        sender={claimed.sender}
+        eta={claimed.eta}
+        network={claimed.network}
+        transactionData={claimed.transactionData as DepositWidgetProps['transactionData']}
+      />
+    );
+  }
+  if (!output) {
+    return null;
+  }
+  if ('allowance' in output) {
+    return output.allowance.change
+      ? <AllowanceWidget change={output.allowance.change} owner={output.allowance.owner} network={output.network} />
+      : <AllowanceSummary report={output.allowance} network={output.network} />;
+  }
+  return <DepositWidget {...output} />;
+}
+
 const styles = {
   container: {
     fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
@@ -253,6 +966,17 @@ const styles = {
     cursor: 'pointer',
     transition: 'transform 0.2s',
   },
+  secondaryButton: {
+    width: '100%',
+    marginTop: '8px',
+    padding: '8px',
+    fontSize: '13px',
+    border: 'none',
+    background: 'transparent',
+    color: 'white',
+    textDecoration: 'underline',
+    cursor: 'pointer',
+  },
   error: {
     background: 'rgba(255, 0, 0, 0.2)',
     border: '1px solid rgba(255, 0, 0, 0.3)',
@@ -300,14 +1024,8 @@ const styles = {
 // Initialize widget when loaded
 if (typeof window !== 'undefined') {
   const urlParams = new URLSearchParams(window.location.search);
-  const props: DepositWidgetProps = {
-    amount: urlParams.get('amount') || '0',
-    stacksRecipient: urlParams.get('recipient') || '',
-    transactionData: JSON.parse(decodeURIComponent(urlParams.get('data') || '{}'))
-  };
-
   const root = createRoot(document.getElementById('root')!);
-  root.render(<DepositWidget {...props} />);
+  root.render(<DepositApp intentId={urlParams.get('intent')} />);
 }
 
 export default DepositWidget;
\ No newline at end of file
@@ -1,27 +1,25 @@
 // Status Widget: Track bridge transaction status
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { createRoot } from 'react-dom/client';
+import { useTransferStatus, type TransferStatusView } from './hooks/useTransferStatus';
+import { useToolOutput } from './hooks/useToolOutput';
+import { explorerTxUrl, type NetworkSummary } from '../shared/network';
 
 interface StatusWidgetProps {
   txHash: string;
   chain: 'ethereum' | 'stacks';
-  initialStatus?: {
-    state: 'pending' | 'confirming' | 'attesting' | 'completed' | 'failed';
-    confirmations: number;
-    explorerUrl: string;
-    eta?: string;
-    errorMessage?: string;
-  };
+  network?: NetworkSummary;
+  initialStatus?: TransferStatusView;
 }
 
-function StatusWidget({ txHash, chain, initialStatus }: StatusWidgetProps) {
-  const [status, setStatus] = useState(initialStatus || {
-    state: 'pending' as const,
+function StatusWidget({ txHash, chain, network, initialStatus }: StatusWidgetProps) {
+  const { status: liveStatus, error: statusError, refreshing, refresh } = useTransferStatus(txHash || null, chain, initialStatus);
+  const status: TransferStatusView = liveStatus ?? {
+    state: 'pending',
     confirmations: 0,
     explorerUrl: '',
     eta: 'Loading...'
-  });
-  const [refreshing, setRefreshing] = useState(false);
+  };
 
   const statusConfig = {
     pending: { emoji: '⏳', color: '#fbbf24', label: 'Pending' },
@@ -33,42 +31,6 @@ function StatusWidget({ txHash, chain, initialStatus }: StatusWidgetProps) {
 
   const currentConfig = statusConfig[status.state];
 
-  const refreshStatus = async () => {
-    setRefreshing(true);
-    try {
-      // In a real implementation, this would call the MCP server
-      // For now, we'll simulate a status check
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Simulate status progression
-      if (status.state === 'pending') {
-        setStatus({
-          ...status,
-          state: 'confirming',
-          confirmations: 1,
-          eta: chain === 'ethereum' ? '~2 minutes' : '~1 minute'
-        });
-      } else if (status.state === 'confirming' && status.confirmations < 6) {
-        setStatus({
-          ...status,
-          confirmations: status.confirmations + 1
-        });
-      }
-    } catch (error) {
-      console.error('Failed to refresh status:', error);
-    } finally {
-      setRefreshing(false);
-    }
-  };
-
-  useEffect(() => {
-    // Auto-refresh every 15 seconds if not completed or failed
-    if (status.state !== 'completed' && status.state !== 'failed') {
-      const interval = setInterval(refreshStatus, 15000);
-      return () => clearInterval(interval);
-    }
-  }, [status.state]);
-
   return (
     <div style={styles.container}>
       <div style={{...styles.card, borderLeft: `4px solid ${currentConfig.color}`}}>
@@ -78,7 +40,7 @@ function StatusWidget({ txHash, chain, initialStatus }: StatusWidgetProps) {
             <span style={styles.statusLabel}>{currentConfig.label}</span>
           </div>
           <button 
-            onClick={refreshStatus} 
+            onClick={refresh} 
             disabled={refreshing || status.state === 'completed' || status.state === 'failed'}
             style={styles.refreshButton}
           >
@@ -96,12 +58,14 @@ function StatusWidget({ txHash, chain, initialStatus }: StatusWidgetProps) {
           <div style={styles.infoRow}>
             <span style={styles.label}>Chain:</span>
             <span style={styles.value}>
-              {chain === 'ethereum' ? '🔵 Ethereum Sepolia' : '🟠 Stacks Testnet'}
+              {chain === 'ethereum' ? '🔵' : '🟠'} {network?.[chain].chainName ?? (chain === 'ethereum' ? 'Ethereum' : 'Stacks')}
             </span>
           </div>
           <div style={styles.infoRow}>
             <span style={styles.label}>Confirmations:</span>
-            <span style={styles.value}>{status.confirmations}</span>
+            <span style={styles.value}>
+              {status.confirmations}{status.requiredConfirmations ? ` of ${status.requiredConfirmations}` : ''}
+            </span>
           </div>
           {status.eta && (
             <div style={styles.infoRow}>
@@ -111,9 +75,17 @@ function StatusWidget({ txHash, chain, initialStatus }: StatusWidgetProps) {
           )}
         </div>
 
+        {statusError && (
+          <div style={styles.error}>
+            <strong>Could not refresh the status:</strong> {statusError}
+            <p style={styles.alertText}>Retrying automatically.</p>
+          </div>
+        )}
+
         {status.errorMessage && (
           <div style={styles.error}>
             <strong>Error:</strong> {status.errorMessage}
+            {status.remediation && <p style={styles.alertText}>{status.remediation}</p>}
           </div>
         )}
 
@@ -121,8 +93,8 @@ function StatusWidget({ txHash, chain, initialStatus }: StatusWidgetProps) {
           <div style={styles.alert}>
             <strong>⚡ Attestation in Progress</strong>
             <p style={styles.alertText}>
-              Your transaction is being verified by Circle's attestation service. 
-              This typically takes {chain === 'ethereum' ? '15-20' : '25-45'} minutes.
+              Your transaction is being verified by Circle's attestation service.{' '}
+              {status.eta ? `Expected: ${status.eta}.` : `This typically takes ${chain === 'ethereum' ? '15-20' : '25-45'} minutes.`}
             </p>
           </div>
         )}
@@ -133,16 +105,20 @@ function StatusWidget({ txHash, chain, initialStatus }: StatusWidgetProps) {
             <p style={styles.alertText}>
               Your funds have successfully arrived on the destination chain.
             </p>
+            {status.destination && (
+              <p style={styles.alertText}>
+                {status.destination.amount} {status.destination.chain === 'stacks' ? 'USDCx' : 'USDC'} delivered in{' '}
+                <a href={status.destination.explorerUrl} target="_blank" rel="noopener noreferrer" style={styles.link}>
+                  {status.destination.txId.slice(0, 8)}...{status.destination.txId.slice(-8)}
+                </a>
+              </p>
+            )}
           </div>
         )}
 
         <div style={styles.footer}>
           <a 
-            href={status.explorerUrl || (
-              chain === 'ethereum' 
-                ? `https://sepolia.etherscan.io/tx/${txHash}`
-                : `https://explorer.hiro.so/txid/${txHash}?chain=testnet`
-            )}
+            href={status.explorerUrl || (network ? explorerTxUrl(network[chain].explorerTxUrl, txHash) : undefined)}
             target="_blank"
             rel="noopener noreferrer"
             style={styles.link}
@@ -151,16 +127,16 @@ function StatusWidget({ txHash, chain, initialStatus }: StatusWidgetProps) {
           </a>
         </div>
 
-        {status.state === 'confirming' && (
+        {status.state === 'confirming' && status.requiredConfirmations ? (
           <div style={styles.progress}>
             <div 
               style={{
                 ...styles.progressBar,
-                width: `${(status.confirmations / 12) * 100}%`
+                width: `${Math.min(status.confirmations / status.requiredConfirmations, 1) * 100}%`
               }}
             />
           </div>
-        )}
+        ) : null}
       </div>
     </div>
   );
@@ -281,19 +257,40 @@ const styles = {
   },
 };
 
+// structuredContent of checkStatus
+interface StatusToolOutput {
+  txHash: string;
+  chain: 'ethereum' | 'stacks';
+  network: NetworkSummary;
+  status: TransferStatusView;
+}
+
+/**
+ * Inside ChatGPT the props come from the tool's structuredContent; hosted links carry only the
+ * transaction and chain, and the status is read from the server on load
+ */
+function StatusApp(props: Pick<StatusWidgetProps, 'txHash' | 'chain'>) {
+  const output = useToolOutput<StatusToolOutput>();
+
+  if (!window.openai) {
+    return <StatusWidget {...props} />;
+  }
+  if (!output) {
+    return null;
+  }
+  return <StatusWidget txHash={output.txHash} chain={output.chain} network={output.network} initialStatus={output.status} />;
+}
+
 // Initialize widget when loaded
 if (typeof window !== 'undefined') {
   const urlParams = new URLSearchParams(window.location.search);
-  const props: StatusWidgetProps = {
-    txHash: urlParams.get('txHash') || '',
-    chain: (urlParams.get('chain') as 'ethereum' | 'stacks') || 'ethereum',
-    initialStatus: urlParams.get('status') 
-      ? JSON.parse(decodeURIComponent(urlParams.get('status')!))
-      : undefined
-  };
-
   const root = createRoot(document.getElementById('root')!);
-  root.render(<StatusWidget {...props} />);
+  root.render(
+    <StatusApp
+      txHash={urlParams.get('txHash') || ''}
+      chain={urlParams.get('chain') === 'stacks' ? 'stacks' : 'ethereum'}
+    />
+  );
 }
 
 export default StatusWidget;
\ No newline at end of file
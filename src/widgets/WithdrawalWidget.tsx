@@ -1,28 +1,109 @@
 // Withdrawal Widget: Bridge USDCx from Stacks to Ethereum
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { useLeather } from './hooks/useLeather';
-import { AnchorMode, PostConditionMode } from '@stacks/transactions';
+import { useTransferStatus } from './hooks/useTransferStatus';
+import { useToolOutput } from './hooks/useToolOutput';
+import { useBridgeIntent, type PublicBridgeIntent } from './hooks/useBridgeIntent';
+import { AnchorMode, PostConditionMode, ClarityType, deserializeCV } from '@stacks/transactions';
+import { parseAmount, formatAmount } from '../shared/amount';
+import { explorerTxUrl, type NetworkSummary } from '../shared/network';
+import { intentClaimMessage, type IntentClaim } from '../shared/intent';
 
 interface WithdrawalWidgetProps {
   amount: string;
   ethereumRecipient: string;
+  sender?: string; // the only account that may sign the prepared burn
+  network?: NetworkSummary;
+  eta?: string; // typical transfer time from recent completions
   transactionData: {
     contractAddress: string;
     contractName: string;
     functionName: string;
-    functionArgs: any[];
+    functionArgs: string[];
     postConditions: any[];
     estimatedFee: string;
   };
 }
 
-function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: WithdrawalWidgetProps) {
-  const { address, isConnected, error: walletError, connect, callContract } = useLeather();
-  const [step, setStep] = useState<'connect' | 'ready' | 'confirming' | 'success'>('connect');
+/**
+ * Ways the prepared burn differs from the amount and recipient the widget shows. Checked
+ * here rather than trusted, so a tampered or mismatched transfer is caught before signing.
+ */
+function burnMismatches(
+  transactionData: WithdrawalWidgetProps['transactionData'],
+  amount: string,
+  ethereumRecipient: string,
+  network?: NetworkSummary
+): string[] {
+  let args;
+  try {
+    args = transactionData.functionArgs.map(arg => deserializeCV(arg));
+  } catch {
+    return ['The transaction arguments cannot be decoded'];
+  }
+
+  const [burned, remoteDomain, recipient] = args;
+  if (transactionData.functionName !== 'burn' || burned?.type !== ClarityType.UInt ||
+      remoteDomain?.type !== ClarityType.UInt || recipient?.type !== ClarityType.Buffer) {
+    return ['The transaction is not a USDCx burn'];
+  }
+
+  const mismatches: string[] = [];
+  let expected: bigint | null;
+  try {
+    expected = parseAmount(amount);
+  } catch {
+    expected = null;
+  }
+  if (BigInt(burned.value) !== expected) {
+    mismatches.push(`It burns ${formatAmount(BigInt(burned.value))} USDCx, not ${amount} USDCx`);
+  }
+
+  // The recipient is a 20-byte address left-padded to 32 bytes
+  const padded = `${'0'.repeat(24)}${ethereumRecipient.replace(/^0x/, '')}`.toLowerCase();
+  if (recipient.value.toLowerCase() !== padded) {
+    mismatches.push(`It releases USDC to a different address than ${ethereumRecipient}`);
+  }
+
+  if (network) {
+    const contract = `${transactionData.contractAddress}.${transactionData.contractName}`;
+    if (contract !== network.stacks.usdcxContract) {
+      mismatches.push(`It calls ${contract} instead of ${network.stacks.usdcxContract}`);
+    }
+    if (Number(remoteDomain.value) !== network.ethereum.domain) {
+      mismatches.push(`It targets domain ${remoteDomain.value} instead of Ethereum (${network.ethereum.domain})`);
+    }
+  }
+  return mismatches;
+}
+
+function WithdrawalWidget({ amount, ethereumRecipient, sender, network, eta = '~25-45 minutes', transactionData }: WithdrawalWidgetProps) {
+  const { address, isConnected, error: walletError, connect, callContract } = useLeather(network?.stacks.network);
+  const [step, setStep] = useState<'connect' | 'ready' | 'confirming' | 'success' | 'failed'>('connect');
   const [txId, setTxId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const { status, error: statusError } = useTransferStatus(step === 'confirming' ? txId : null, 'stacks');
+
+  // Re-format through the exact amount parser so the display never drifts from base units
+  const displayAmount = useMemo(() => {
+    try {
+      return formatAmount(parseAmount(amount));
+    } catch {
+      return amount;
+    }
+  }, [amount]);
+
+  const explorerUrl = txId && network ? explorerTxUrl(network.stacks.explorerTxUrl, txId) : null;
+
+  // Nothing can be signed while the calldata disagrees with what is shown, or from another account
+  const mismatches = useMemo(
+    () => burnMismatches(transactionData, amount, ethereumRecipient, network),
+    [transactionData, amount, ethereumRecipient, network]
+  );
+  const wrongAccount = !!sender && !!address && sender !== address;
+  const blocked = mismatches.length > 0 || wrongAccount;
 
   useEffect(() => {
     if (isConnected) {
@@ -30,6 +111,14 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
     }
   }, [isConnected]);
 
+  useEffect(() => {
+    if (status?.state === 'completed') {
+      setStep('success');
+    } else if (status?.state === 'failed') {
+      setStep('failed');
+    }
+  }, [status?.state]);
+
   const handleWithdraw = async () => {
     setLoading(true);
     setError(null);
@@ -47,9 +136,6 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
       
       setTxId(txid);
       setStep('confirming');
-      
-      // After a few seconds, show success
-      setTimeout(() => setStep('success'), 3000);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Transaction failed');
     } finally {
@@ -65,7 +151,7 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
         <div style={styles.info}>
           <div style={styles.infoRow}>
             <span style={styles.label}>Amount:</span>
-            <span style={styles.value}>{amount} USDCx → {amount} USDC</span>
+            <span style={styles.value}>{displayAmount} USDCx → {displayAmount} USDC</span>
           </div>
           <div style={styles.infoRow}>
             <span style={styles.label}>Destination:</span>
@@ -73,11 +159,11 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
           </div>
           <div style={styles.infoRow}>
             <span style={styles.label}>Network:</span>
-            <span style={styles.value}>Stacks Testnet → Ethereum Sepolia</span>
+            <span style={styles.value}>{network?.stacks.chainName ?? 'Stacks'} → {network?.ethereum.chainName ?? 'Ethereum'}</span>
           </div>
           <div style={styles.infoRow}>
             <span style={styles.label}>Time:</span>
-            <span style={styles.value}>~25-45 minutes</span>
+            <span style={styles.value}>{eta}</span>
           </div>
           <div style={styles.infoRow}>
             <span style={styles.label}>Fee:</span>
@@ -93,6 +179,19 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
           <div style={styles.error}>{error}</div>
         )}
 
+        {mismatches.length > 0 && (
+          <div style={styles.error}>
+            <strong>⚠️ Do not sign: the transaction does not match this transfer</strong>
+            {mismatches.map(mismatch => <p key={mismatch}>{mismatch}</p>)}
+          </div>
+        )}
+
+        {wrongAccount && (
+          <div style={styles.error}>
+            This withdrawal was prepared for {sender!.slice(0, 8)}...{sender!.slice(-6)}. Switch to that account in Leather to sign it.
+          </div>
+        )}
+
         {step === 'connect' && (
           <button 
             onClick={connect} 
@@ -102,10 +201,10 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
           </button>
         )}
 
-        {step === 'ready' && (
+        {!blocked && step === 'ready' && (
           <div>
             <p style={styles.stepInfo}>
-              ✅ Ready to burn {amount} USDCx and receive USDC on Ethereum
+              ✅ Ready to burn {displayAmount} USDCx and receive USDC on Ethereum
             </p>
             <button 
               onClick={handleWithdraw} 
@@ -119,11 +218,15 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
 
         {step === 'confirming' && (
           <div style={styles.success}>
-            <div style={styles.spinner}>⏳</div>
-            <p>Transaction submitted!</p>
-            {txId && (
+            <div style={styles.spinner}>{status?.state === 'attesting' ? '🔐' : '⏳'}</div>
+            <p>
+              {status?.state === 'confirming' ? `Confirming on Stacks (${status.confirmations} confirmation${status.confirmations === 1 ? '' : 's'})`
+                : status?.state === 'attesting' ? 'Confirmed! Waiting for the attestation and the USDC release on Ethereum'
+                : 'Transaction submitted! Waiting for it to be included...'}
+            </p>
+            {explorerUrl && (
               <a 
-                href={`https://explorer.hiro.so/txid/${txId}?chain=testnet`}
+                href={explorerUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 style={styles.link}
@@ -132,19 +235,55 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
               </a>
             )}
             <p style={styles.note}>
-              Waiting for confirmations... Your USDC will arrive on Ethereum in 25-45 minutes.
+              Your USDC will arrive on Ethereum in {status?.eta ?? eta}.
             </p>
+            {statusError && (
+              <p style={styles.note}>Could not refresh the status ({statusError}); retrying...</p>
+            )}
           </div>
         )}
 
         {step === 'success' && (
           <div style={styles.success}>
             <div style={styles.successIcon}>✅</div>
-            <h3>Withdrawal Initiated!</h3>
-            <p>Your {amount} USDCx is being bridged to Ethereum</p>
-            {txId && (
+            <h3>Withdrawal Complete!</h3>
+            <p>
+              {status?.destination?.amount ?? displayAmount} USDC arrived at {ethereumRecipient.slice(0, 8)}... on {network?.ethereum.chainName ?? 'Ethereum'}
+            </p>
+            {explorerUrl && (
+              <a 
+                href={explorerUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={styles.link}
+              >
+                View Burn →
+              </a>
+            )}
+            {status?.destination && (
+              <a
+                href={status.destination.explorerUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={styles.link}
+              >
+                View Release on Ethereum →
+              </a>
+            )}
+          </div>
+        )}
+
+        {step === 'failed' && (
+          <div style={styles.success}>
+            <div style={styles.successIcon}>❌</div>
+            <h3>Withdrawal Failed</h3>
+            <p>{status?.errorMessage ?? 'The burn transaction failed'}</p>
+            {status?.remediation && (
+              <p style={styles.note}>{status.remediation}</p>
+            )}
+            {explorerUrl && (
               <a 
-                href={`https://explorer.hiro.so/txid/${txId}?chain=testnet`}
+                href={explorerUrl}
                 target="_blank"
                 rel="noopener noreferrer"
                 style={styles.link}
@@ -152,9 +291,6 @@ function WithdrawalWidget({ amount, ethereumRecipient, transactionData }: Withdr
                 View Transaction →
               </a>
             )}
-            <p style={styles.note}>
-              USDC will arrive at {ethereumRecipient.slice(0, 8)}... in approximately 25-45 minutes
-            </p>
           </div>
         )}
 
@@ -263,17 +399,127 @@ const styles = {
   },
 };
 
+/**
+ * A hosted withdrawal link before the burn is released: the connected account signs
+ * intentClaimMessage to prove it is the prepared sender, and only then gets the transaction
+ */
+function ClaimWithdrawal({ intent, claim }: { intent: PublicBridgeIntent; claim: (claim: IntentClaim) => Promise<void> }) {
+  const { address, isConnected, error: walletError, connect, signMessage } = useLeather(intent.network.stacks.network);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const wrongAccount = !!address && address !== intent.sender;
+
+  const handleClaim = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await claim(await signMessage(intentClaimMessage(intent.id, intent.sender)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the withdrawal');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h2 style={styles.title}>🌉 Bridge USDCx to Ethereum</h2>
+
+        <div style={styles.info}>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Amount:</span>
+            <span style={styles.value}>{intent.amount} USDCx</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>From:</span>
+            <span style={styles.value}>{intent.sender.slice(0, 8)}...{intent.sender.slice(-6)}</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Destination:</span>
+            <span style={styles.value}>{intent.recipient.slice(0, 8)}...{intent.recipient.slice(-6)}</span>
+          </div>
+          <div style={styles.infoRow}>
+            <span style={styles.label}>Network:</span>
+            <span style={styles.value}>{intent.network.stacks.chainName} → {intent.network.ethereum.chainName}</span>
+          </div>
+        </div>
+
+        {walletError && <div style={styles.error}>{walletError}</div>}
+        {error && <div style={styles.error}>{error}</div>}
+        {wrongAccount && (
+          <div style={styles.error}>
+            This withdrawal was prepared for {intent.sender.slice(0, 8)}...{intent.sender.slice(-6)}. Switch to that account in Leather.
+          </div>
+        )}
+
+        {!isConnected && (
+          <button onClick={connect} style={styles.button}>
+            🔗 Connect Leather Wallet
+          </button>
+        )}
+
+        {isConnected && !wrongAccount && (
+          <>
+            <button onClick={handleClaim} disabled={loading} style={styles.button}>
+              {loading ? '⏳ Waiting for signature...' : '✍️ Sign to Open Withdrawal'}
+            </button>
+            <p style={styles.note}>Signing proves you own the sending account. It moves no funds.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Inside ChatGPT the props come from prepareWithdrawal's structuredContent; hosted links load
+ * the prepared burn, and the network it was prepared for, from the serving origin's intent
+ */
+function WithdrawalApp({ intentId }: { intentId: string | null }) {
+  const output = useToolOutput<WithdrawalWidgetProps>();
+  const { intent, claimed, error, claim } = useBridgeIntent<WithdrawalWidgetProps['transactionData']>(window.openai ? null : intentId);
+
+  if (!window.openai) {
+    if (error || !intentId) {
+      return (
+        <div style={styles.container}>
+          <div style={styles.card}>
+            <div style={styles.error}>{error ?? 'This link does not name a prepared withdrawal'}</div>
+          </div>
+        </div>
+      );
+    }
+    if (!intent) {
+      return null;
+    }
+    if (!claimed) {
+      return <ClaimWithdrawal intent={intent} claim={claim} />;
+    }
+    return (
+      <WithdrawalWidget
+        amount={claimed.amount}
+        ethereumRecipient={claimed.recipient}
+        sender={claimed.sender}
+        eta={claimed.eta}
+        network={claimed.network}
+        transactionData={claimed.transactionData}
+      />
+    );
+  }
+  if (!output) {
+    return null;
+  }
+  return <WithdrawalWidget {...output} />;
+}
+
 // Initialize widget when loaded
 if (typeof window !== 'undefined') {
   const urlParams = new URLSearchParams(window.location.search);
-  const props: WithdrawalWidgetProps = {
-    amount: urlParams.get('amount') || '0',
-    ethereumRecipient: urlParams.get('recipient') || '',
-    transactionData: JSON.parse(decodeURIComponent(urlParams.get('data') || '{}'))
-  };
-
   const root = createRoot(document.getElementById('root')!);
-  root.render(<WithdrawalWidget {...props} />);
+  root.render(<WithdrawalApp intentId={urlParams.get('intent')} />);
 }
 
 export default WithdrawalWidget;
\ No newline at end of file
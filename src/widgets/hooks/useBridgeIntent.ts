@@ -0,0 +1,93 @@
+// Bridge intent hook: loads the prepared transfer a widget link points at, and claims it for its sender
+import { useState, useEffect, useCallback } from 'react';
+import type { NetworkSummary } from '../../shared/network';
+import type { IntentClaim } from '../../shared/intent';
+
+/**
+ * The server's PublicBridgeIntent: what a link shows before its sender claims it
+ */
+export interface PublicBridgeIntent {
+  id: string;
+  direction: 'deposit' | 'withdrawal' | 'allowance'; // an allowance change's recipient is the spender
+  sender: string; // the only address that may claim and sign it
+  recipient: string;
+  amount: string; // "unlimited" for an unlimited approval
+  amountBaseUnits: string;
+  eta?: string;
+  network: NetworkSummary;
+  expiresAt: string;
+}
+
+/**
+ * The server's BridgeIntent; transactionData is the prepared deposit, burn or approve call
+ */
+export interface BridgeIntent<T> extends PublicBridgeIntent {
+  transactionData: T;
+  transferId?: string;
+}
+
+export interface BridgeIntentHook<T> {
+  intent: PublicBridgeIntent | null;
+  claimed: BridgeIntent<T> | null; // set once the server accepts the sender's claim
+  error: string | null; // the link could not be loaded
+  claim: (claim: IntentClaim) => Promise<void>; // rejects when the server refuses the claim
+}
+
+/**
+ * Intent route on the server this widget was loaded from (widgets are served under /widgets,
+ * the routes at the root). Never another origin, so a link cannot point the widget at a foreign server.
+ */
+function intentUrl(id: string, action = ''): string {
+  return new URL(`../intents/${encodeURIComponent(id)}${action}`, window.location.href).href;
+}
+
+async function readIntent<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message ?? body.error ?? `Could not load the transfer (${response.status})`);
+  }
+  return body as T;
+}
+
+/**
+ * Fetch intent `id` once, and its transaction when `claim` succeeds. Nothing is fetched while `id` is null.
+ */
+export function useBridgeIntent<T>(id: string | null): BridgeIntentHook<T> {
+  const [intent, setIntent] = useState<PublicBridgeIntent | null>(null);
+  const [claimed, setClaimed] = useState<BridgeIntent<T> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const loaded = await readIntent<PublicBridgeIntent>(await fetch(intentUrl(id)));
+        if (!cancelled) setIntent(loaded);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the transfer');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const claim = useCallback(async (proof: IntentClaim) => {
+    if (!id) {
+      throw new Error('This link does not name a prepared transfer');
+    }
+
+    const response = await fetch(intentUrl(id, '/claim'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(proof)
+    });
+    setClaimed(await readIntent<BridgeIntent<T>>(response));
+  }, [id]);
+
+  return { intent, claimed, error, claim };
+}
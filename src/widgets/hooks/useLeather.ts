@@ -1,9 +1,10 @@
 // Leather/Stacks wallet connection hook
 import { useState, useEffect } from 'react';
 import { AppConfig, UserSession, showConnect } from '@stacks/connect';
-import { openContractCall } from '@stacks/connect';
-import { STACKS_TESTNET, STACKS_MAINNET } from '@stacks/network';
+import { openContractCall, openSignatureRequestPopup } from '@stacks/connect';
+import { STACKS_TESTNET, STACKS_MAINNET, STACKS_DEVNET } from '@stacks/network';
 import type { ContractCallPayload } from '@stacks/transactions';
+import type { NetworkName } from '../../shared/network';
 
 export interface LeatherHook {
   address: string | null;
@@ -12,15 +13,27 @@ export interface LeatherHook {
   connect: () => void;
   disconnect: () => void;
   callContract: (payload: Omit<ContractCallPayload, 'network'>) => Promise<string>;
+  signMessage: (message: string) => Promise<{ signature: string; publicKey: string }>;
 }
 
-const isMainnet = process.env.STACKS_NETWORK === 'mainnet';
-const network = isMainnet ? STACKS_MAINNET : STACKS_TESTNET;
+const APP_DETAILS = {
+  name: 'USDCx Bridge',
+  icon: window.location.origin + '/icon.png'
+};
+
+const NETWORKS = {
+  mainnet: STACKS_MAINNET,
+  testnet: STACKS_TESTNET,
+  devnet: STACKS_DEVNET
+};
 
 const appConfig = new AppConfig(['store_write', 'publish_data']);
 const userSession = new UserSession({ appConfig });
 
-export function useLeather(): LeatherHook {
+export function useLeather(networkName: NetworkName = 'testnet'): LeatherHook {
+  // Network comes from the server's network profile, not a build-time flag
+  const isMainnet = networkName === 'mainnet';
+  const network = NETWORKS[networkName];
   const [address, setAddress] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -36,10 +49,7 @@ export function useLeather(): LeatherHook {
     setError(null);
 
     showConnect({
-      appDetails: {
-        name: 'USDCx Bridge',
-        icon: window.location.origin + '/icon.png'
-      },
+      appDetails: APP_DETAILS,
       redirectTo: '/',
       onFinish: () => {
         const userData = userSession.loadUserData();
@@ -76,12 +86,35 @@ export function useLeather(): LeatherHook {
     });
   };
 
+  // Stacks message signature (RSV hex) plus the key that made it; costs no fee
+  const signMessage = async (message: string): Promise<{ signature: string; publicKey: string }> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    return new Promise((resolve, reject) => {
+      openSignatureRequestPopup({
+        message,
+        network,
+        appDetails: APP_DETAILS,
+        userSession,
+        onFinish: ({ signature, publicKey }) => {
+          resolve({ signature, publicKey });
+        },
+        onCancel: () => {
+          reject(new Error('Signature cancelled'));
+        }
+      }).catch(reject);
+    });
+  };
+
   return {
     address,
     isConnected: !!address,
     error,
     connect,
     disconnect,
-    callContract
+    callContract,
+    signMessage
   };
 }
\ No newline at end of file
@@ -1,25 +1,60 @@
 // MetaMask/Ethereum wallet connection hook
 import { useState, useEffect } from 'react';
-import { createPublicClient, createWalletClient, custom, http, type Address, type Hex } from 'viem';
-import { sepolia, mainnet } from 'viem/chains';
+import { createPublicClient, createWalletClient, custom, http, type Address, type Hex, type TypedDataDefinition } from 'viem';
+import { sepolia, mainnet, foundry } from 'viem/chains';
+
+export interface ContractCall {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+}
 
 export interface MetaMaskHook {
   address: Address | null;
   isConnected: boolean;
   isConnecting: boolean;
   error: string | null;
+  supportsAtomicBatch: boolean; // EIP-5792 atomic batches on the current chain
   connect: () => Promise<void>;
   disconnect: () => void;
   sendTransaction: (to: Address, data: Hex, value?: bigint) => Promise<Hex>;
+  signTypedData: (typedData: TypedDataDefinition) => Promise<Hex>;
+  signMessage: (message: string) => Promise<Hex>;
+  sendCalls: (calls: ContractCall[]) => Promise<string>;
+  waitForCalls: (id: string) => Promise<Hex[]>;
+  waitForTransaction: (hash: Hex) => Promise<void>;
+}
+
+const SUPPORTED_CHAINS = [mainnet, sepolia, foundry];
+
+// Batches and receipts are polled for at most 10 minutes
+const CONFIRMATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * The wallet settled a batch without success. Its calls are atomic, so nothing moved and it is safe
+ * to try again; any other waitForCalls error (a timeout, a wallet hiccup) means the batch may still land.
+ */
+export class BatchFailedError extends Error {
+  constructor() {
+    super('The batched transaction failed; no funds were moved');
+    this.name = 'BatchFailedError';
+  }
 }
 
-const isMainnet = process.env.ETHEREUM_NETWORK === 'mainnet';
-const chain = isMainnet ? mainnet : sepolia;
+export function useMetaMask(chainId: number = sepolia.id): MetaMaskHook {
+  // Chain comes from the server's network profile, not a build-time flag
+  const chain = SUPPORTED_CHAINS.find(c => c.id === chainId) ?? sepolia;
 
-export function useMetaMask(): MetaMaskHook {
   const [address, setAddress] = useState<Address | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [supportsAtomicBatch, setSupportsAtomicBatch] = useState(false);
+
+  const getWalletClient = (account: Address) => createWalletClient({
+    account,
+    chain,
+    transport: custom(window.ethereum!)
+  });
 
   useEffect(() => {
     // Check if already connected
@@ -48,6 +83,23 @@ export function useMetaMask(): MetaMaskHook {
     }
   }, []);
 
+  useEffect(() => {
+    // wallet_getCapabilities is per account and chain; wallets without EIP-5792 reject it
+    setSupportsAtomicBatch(false);
+    if (!address || typeof window === 'undefined' || !window.ethereum) return;
+
+    let cancelled = false;
+    getWalletClient(address).getCapabilities({ account: address, chainId: chain.id })
+      .then(capabilities => {
+        const status = capabilities.atomic?.status;
+        if (!cancelled) setSupportsAtomicBatch(status === 'supported' || status === 'ready');
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chain.id]);
+
   const connect = async () => {
     if (typeof window === 'undefined' || !window.ethereum) {
       setError('MetaMask not installed. Please install MetaMask to continue.');
@@ -86,13 +138,7 @@ export function useMetaMask(): MetaMaskHook {
       throw new Error('MetaMask not found');
     }
 
-    const walletClient = createWalletClient({
-      account: address,
-      chain,
-      transport: custom(window.ethereum)
-    });
-
-    const hash = await walletClient.sendTransaction({
+    const hash = await getWalletClient(address).sendTransaction({
       to,
       data,
       value,
@@ -103,13 +149,93 @@ export function useMetaMask(): MetaMaskHook {
     return hash;
   };
 
+  // One wallet confirmation for all calls, executed atomically (wallet_sendCalls)
+  const sendCalls = async (calls: ContractCall[]): Promise<string> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!window.ethereum) {
+      throw new Error('MetaMask not found');
+    }
+
+    const { id } = await getWalletClient(address).sendCalls({
+      account: address,
+      chain,
+      calls,
+      forceAtomic: true
+    });
+    return id;
+  };
+
+  // Polls wallet_getCallsStatus until the batch lands; returns its transaction hashes, or throws BatchFailedError
+  const waitForCalls = async (id: string): Promise<Hex[]> => {
+    if (!address || !window.ethereum) {
+      throw new Error('Wallet not connected');
+    }
+
+    const { status, receipts } = await getWalletClient(address).waitForCallsStatus({
+      id,
+      timeout: CONFIRMATION_TIMEOUT_MS
+    });
+    if (status !== 'success' || receipts?.some(receipt => receipt.status !== 'success')) {
+      throw new BatchFailedError();
+    }
+    return [...new Set((receipts ?? []).map(receipt => receipt.transactionHash))];
+  };
+
+  // Resolves once the transaction is mined; rejects if it reverted
+  const waitForTransaction = async (hash: Hex): Promise<void> => {
+    if (!window.ethereum) {
+      throw new Error('MetaMask not found');
+    }
+
+    const publicClient = createPublicClient({ chain, transport: custom(window.ethereum) });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: CONFIRMATION_TIMEOUT_MS });
+    if (receipt.status !== 'success') {
+      throw new Error(`Transaction ${hash.slice(0, 10)}... reverted`);
+    }
+  };
+
+  // EIP-712 signature (eth_signTypedData_v4); costs no gas
+  const signTypedData = async (typedData: TypedDataDefinition): Promise<Hex> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!window.ethereum) {
+      throw new Error('MetaMask not found');
+    }
+
+    return getWalletClient(address).signTypedData({ ...typedData, account: address });
+  };
+
+  // personal_sign of a plain-text message; costs no gas
+  const signMessage = async (message: string): Promise<Hex> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!window.ethereum) {
+      throw new Error('MetaMask not found');
+    }
+
+    return getWalletClient(address).signMessage({ account: address, message });
+  };
+
   return {
     address,
     isConnected: !!address,
     isConnecting,
     error,
+    supportsAtomicBatch,
     connect,
     disconnect,
-    sendTransaction
+    sendTransaction,
+    signTypedData,
+    signMessage,
+    sendCalls,
+    waitForCalls,
+    waitForTransaction
   };
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+// Host tool output hook: the structuredContent of the tool call a widget was rendered for in ChatGPT
+import { useState, useEffect } from 'react';
+
+// Dispatched by the Apps host whenever window.openai globals (toolOutput among them) change
+const SET_GLOBALS_EVENT = 'openai:set_globals';
+
+/**
+ * The tool's structuredContent, or null until the host provides it (and always outside ChatGPT)
+ */
+export function useToolOutput<T>(): T | null {
+  const [output, setOutput] = useState<T | null>(() => (window.openai?.toolOutput as T | undefined) ?? null);
+
+  useEffect(() => {
+    const onGlobals = () => setOutput((window.openai?.toolOutput as T | undefined) ?? null);
+    window.addEventListener(SET_GLOBALS_EVENT, onGlobals);
+    return () => window.removeEventListener(SET_GLOBALS_EVENT, onGlobals);
+  }, []);
+
+  return output;
+}
@@ -0,0 +1,142 @@
+// Transfer status hook: follows a submitted deposit or burn through the checkStatus tool
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export type TransferChain = 'ethereum' | 'stacks';
+
+/**
+ * The fields of the server's TransferStatus the widgets render
+ */
+export interface TransferStatusView {
+  state: 'pending' | 'confirming' | 'attesting' | 'completed' | 'failed';
+  confirmations: number;
+  requiredConfirmations?: number;
+  explorerUrl: string;
+  eta?: string;
+  errorMessage?: string; // for a reverted deposit, the decoded revert reason
+  remediation?: string;
+  destination?: {
+    chain: TransferChain;
+    txId: string;
+    explorerUrl: string;
+    amount: string;
+  };
+}
+
+export interface TransferStatusHook {
+  status: TransferStatusView | null;
+  error: string | null; // last failed status request; polling continues
+  refreshing: boolean;
+  refresh: () => void; // check now instead of waiting for the next poll
+}
+
+// Roughly once per block on each chain
+const POLL_INTERVAL_MS: Record<TransferChain, number> = {
+  ethereum: 12_000,
+  stacks: 20_000
+};
+// Each poll that fails or finds nothing new stretches the interval by half, up to 2 minutes
+const BACKOFF_FACTOR = 1.5;
+const MAX_POLL_INTERVAL_MS = 120_000;
+
+function isTerminal(status: TransferStatusView | null | undefined): boolean {
+  return status?.state === 'completed' || status?.state === 'failed';
+}
+
+/**
+ * Status route on the server the widget was loaded from: widgets are served under /widgets, the route at the root
+ */
+function statusUrl(txId: string, chain: TransferChain): string {
+  return new URL(`../status/${chain}/${encodeURIComponent(txId)}`, window.location.href).href;
+}
+
+/**
+ * One status check: the checkStatus tool through the ChatGPT Apps host when the widget runs
+ * inside it, otherwise the server's HTTP route running the same logic
+ */
+async function fetchStatus(txId: string, chain: TransferChain): Promise<TransferStatusView> {
+  if (window.openai?.callTool) {
+    const result = await window.openai.callTool('checkStatus', { txHash: txId, chain });
+    if (result.isError || !result.structuredContent?.status) {
+      throw new Error(result.content?.find(item => item.type === 'text')?.text ?? 'checkStatus failed');
+    }
+    return result.structuredContent.status as TransferStatusView;
+  }
+
+  const response = await fetch(statusUrl(txId, chain));
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message ?? body.error ?? `Status request failed (${response.status})`);
+  }
+  return body as TransferStatusView;
+}
+
+/**
+ * Poll the status of `txId` until it completes or fails. Nothing is polled while `txId` is null.
+ * With `initialStatus` (from the tool result that opened the widget) the first check waits one interval.
+ */
+export function useTransferStatus(
+  txId: string | null,
+  chain: TransferChain,
+  initialStatus?: TransferStatusView
+): TransferStatusHook {
+  const [status, setStatus] = useState<TransferStatusView | null>(initialStatus ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const pollNow = useRef<(() => void) | null>(null);
+
+  const refresh = useCallback(() => pollNow.current?.(), []);
+
+  useEffect(() => {
+    if (!txId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let interval = POLL_INTERVAL_MS[chain];
+    let last = initialStatus;
+    let inFlight = false;
+
+    const poll = async () => {
+      inFlight = true;
+      setRefreshing(true);
+      try {
+        const next = await fetchStatus(txId, chain);
+        if (cancelled) return;
+
+        const changed = next.state !== last?.state || next.confirmations !== last?.confirmations;
+        interval = changed ? POLL_INTERVAL_MS[chain] : Math.min(interval * BACKOFF_FACTOR, MAX_POLL_INTERVAL_MS);
+        last = next;
+        setStatus(next);
+        setError(null);
+        if (isTerminal(next)) return;
+      } catch (err) {
+        if (cancelled) return;
+        interval = Math.min(interval * BACKOFF_FACTOR, MAX_POLL_INTERVAL_MS);
+        setError(err instanceof Error ? err.message : 'Status request failed');
+      } finally {
+        inFlight = false;
+        if (!cancelled) setRefreshing(false);
+      }
+      timer = setTimeout(poll, interval);
+    };
+
+    pollNow.current = () => {
+      if (inFlight) return;
+      clearTimeout(timer);
+      poll();
+    };
+
+    if (last === undefined) {
+      setStatus(null);
+      poll();
+    } else if (!isTerminal(last)) {
+      timer = setTimeout(poll, interval);
+    }
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      pollNow.current = null;
+    };
+  }, [txId, chain]);
+
+  return { status, error, refreshing, refresh };
+}
@@ -6,4 +6,13 @@ interface Window {
     removeListener: (event: string, handler: (...args: any[]) => void) => void;
     isMetaMask?: boolean;
   };
+  // ChatGPT Apps host bridge, present when the widget is rendered inside ChatGPT
+  openai?: {
+    toolOutput?: Record<string, unknown> | null; // structuredContent of the tool call being rendered
+    callTool?: (name: string, args: Record<string, unknown>) => Promise<{
+      content?: { type: string; text?: string }[];
+      structuredContent?: Record<string, unknown>;
+      isError?: boolean;
+    }>;
+  };
 }
\ No newline at end of file